@@ -46,13 +46,13 @@ program
     console.log(`🔧 Don't forget to:`);
     console.log(`   1. Update nodes/index.ts to export your new node`);
     console.log(
-      `   2. Add compatibility rules in validators/compatibility-validator.ts`
+      `   2. Declare compatibility rules in getMetadata().compatibilityMatrix`
     );
     console.log(`   3. Register the node in your application`);
   });
 
 function generateNodeTemplate(nodeName, className, category) {
-  return `import { BaseNode } from '../../base/base-node'
+  return `import { BaseNode, NodeMetadata } from '../../base/base-node'
 import { NodeResult } from '../../interfaces/node.interface'
 
 interface ${className}Input {
@@ -75,6 +75,34 @@ export class ${className} extends BaseNode<${className}Input, ${className}Output
   readonly version = '1.0.0'
   readonly category = '${category}'
   
+  static getMetadata(): NodeMetadata {
+    return {
+      type: '${nodeName}',
+      name: '${className.replace(/Node$/, "")}',
+      description: 'Describe what this node does',
+      version: '1.0.0',
+      category: '${category}',
+      inputs: [
+        {
+          name: 'data',
+          type: 'any',
+          required: true,
+          description: 'Input data'
+        }
+      ],
+      outputs: [
+        {
+          name: 'result',
+          type: 'any',
+          description: 'Processed data'
+        }
+      ],
+      // Connections this node's outputs can feed, e.g.
+      // { targetType: 'data-filter', outputPin: 'result', targetInputPin: 'data', compatibility: 'full' }
+      compatibilityMatrix: []
+    }
+  }
+  
   async execute(input: ${className}Input): Promise<NodeResult<${className}Output>> {
     const startTime = Date.now()
     
@@ -1,5 +1,8 @@
+import { z } from "zod";
 import { INode, NodeResult } from "../interfaces/node.interface";
 import { CompatibilityRule } from "../interfaces/compatibility.interface";
+import { ValidationResult } from "../interfaces/validation.interface";
+import { InputSchemaBuilder } from "../utils/input-schema";
 
 export interface NodeMetadata {
   type: string;
@@ -22,6 +25,15 @@ export interface NodeMetadata {
   tags?: string[];
   relatedNodes?: string[];
   documentation?: NodeDocumentationMetadata;
+  deprecated?: NodeDeprecationMetadata;
+}
+
+export interface NodeDeprecationMetadata {
+  message?: string;
+  /** Version in which the node was deprecated */
+  since?: string;
+  /** Node type and/or version range to migrate to, e.g. "field-mapper@^2.0.0" */
+  replacedBy?: string;
 }
 
 export interface NodeDocumentationMetadata {
@@ -74,6 +86,8 @@ export interface NodeInputMetadata {
     maximum?: number;
     enum?: any[];
   };
+  // Optional structural schema (items/properties) checked against upstream output schemas
+  schema?: Record<string, any>;
 }
 
 export interface NodeOutputMetadata {
@@ -91,11 +105,27 @@ export interface NodeOutputMetadata {
   schema?: Record<string, any>;
 }
 
+/**
+ * How the values of one output pin are combined across batches: `offsetKeys` re-keys maps keyed
+ * by record index (e.g. `insertedIds`) to positions in the full input
+ */
+export type BatchMergeStrategy = "concat" | "sum" | "offsetKeys" | "first";
+
 export interface NodeConfigurationMetadata {
   timeout?: number;
   retries?: number;
   concurrency?: number;
   batchSize?: number;
+  // Array input split into batches of `batchSize`; nodes without one are never batched
+  batchInput?: string;
+  // Merge strategy by output pin (or path, e.g. `result.insertedIds`; `*` for pins created at runtime).
+  // Batching needs it, and pins it does not name are left out of the merged output
+  batchMerge?: Record<string, BatchMergeStrategy>;
+  // Running the node twice has no further effect, so timed out attempts may be retried
+  idempotent?: boolean;
+  // Inputs whose `{{ }}` expressions the node resolves itself (e.g. a sub-flow definition); the
+  // executor passes them as is and validators do not check their references
+  deferredInputs?: string[];
 }
 
 export abstract class BaseNode<TInput, TOutput, TConfig>
@@ -107,6 +137,8 @@ export abstract class BaseNode<TInput, TOutput, TConfig>
 
   protected config: TConfig;
 
+  private inputSchema?: z.AnyZodObject | null;
+
   constructor(config: TConfig) {
     this.config = config;
   }
@@ -114,13 +146,70 @@ export abstract class BaseNode<TInput, TOutput, TConfig>
   abstract execute(input: TInput, context?: any): Promise<NodeResult<TOutput>>;
 
   validate(input: TInput): boolean {
-    return input !== null && input !== undefined;
+    return this.validateInput(input).valid;
+  }
+
+  /**
+   * Validate input against the zod schema derived from getMetadata().inputs.
+   * Override to add checks that metadata cannot express, starting from super's result.
+   */
+  validateInput(input: TInput): ValidationResult {
+    if (input === null || input === undefined) {
+      return {
+        valid: false,
+        errors: [
+          { code: "INPUT_MISSING", message: "Input is required", severity: "error" },
+        ],
+        warnings: [],
+      };
+    }
+
+    if (this.inputSchema === undefined) {
+      this.inputSchema = this.buildInputSchema();
+    }
+
+    if (!this.inputSchema) {
+      return { valid: true, errors: [], warnings: [] };
+    }
+
+    const parsed = this.inputSchema.safeParse(input);
+    return InputSchemaBuilder.toValidationResult(parsed.success ? null : parsed.error);
+  }
+
+  /**
+   * Schema used by validateInput(); nodes can extend it for inputs whose metadata type is too narrow
+   */
+  protected buildInputSchema(): z.AnyZodObject | null {
+    try {
+      const metadata = (this.constructor as typeof BaseNode).getMetadata();
+      return InputSchemaBuilder.build(metadata.inputs);
+    } catch {
+      return null;
+    }
   }
 
   getConfig(): TConfig {
     return this.config;
   }
 
+  /**
+   * Whether a timed out attempt may be retried; nodes whose writes depend on the input override it
+   */
+  isIdempotent(_input: TInput): boolean {
+    return this.getConfiguration().idempotent ?? false;
+  }
+
+  /**
+   * Runtime configuration (timeout, retries, batchSize...) declared in getMetadata()
+   */
+  protected getConfiguration(): NodeConfigurationMetadata {
+    try {
+      return (this.constructor as typeof BaseNode).getMetadata().configuration || {};
+    } catch {
+      return {};
+    }
+  }
+
   // Static method that must be implemented by all nodes to provide metadata
   // This ensures dynamic metadata discovery from the library itself
   static getMetadata(): NodeMetadata {
@@ -0,0 +1,118 @@
+import { NodeRegistry } from './node-registry'
+import { NodeDeprecationMetadata, NodeDocumentationMetadata, NodeMetadata } from './base-node'
+import { JSON_SCHEMA_DIALECT, JsonSchema, JsonSchemaBuilder } from '../utils/json-schema'
+import { SemverUtils } from '../utils/semver'
+
+/** Format version of NodeCatalog; its major changes only when existing fields change or go away */
+export const NODE_CATALOG_VERSION = '1.0.0'
+
+export interface NodeCatalogEntry {
+  type: string
+  version: string
+  /** Whether this is the version flows without a pinned version run */
+  latest: boolean
+  name: string
+  description: string
+  category: NodeMetadata['category']
+  icon?: string
+  tags: string[]
+  relatedNodes: string[]
+  deprecated?: NodeDeprecationMetadata
+  /** Form for the node config: one property per input, with required fields, defaults and validation */
+  inputSchema: JsonSchema
+  /** Shape of NodeResult.data, one property per output pin */
+  outputSchema: JsonSchema
+  /** Execution settings (timeout, retries, concurrency, batchSize) with the node's values as defaults */
+  configurationSchema: JsonSchema
+  /** Input pin names, in declaration order */
+  inputs: string[]
+  /** Output pin names, in declaration order */
+  outputs: string[]
+  documentation?: NodeDocumentationMetadata
+}
+
+export interface NodeCatalog {
+  catalogVersion: string
+  /** JSON Schema dialect of every schema in the catalog */
+  schemaDialect: string
+  /** Sorted by type, then by version */
+  nodes: NodeCatalogEntry[]
+}
+
+export interface NodeCatalogOptions {
+  /** Every registered version instead of the latest of each type */
+  allVersions?: boolean
+  /** Defaults to true */
+  includeDocumentation?: boolean
+}
+
+/**
+ * Builds the catalog of a registry. Entries only depend on the registered metadata, so the same
+ * registrations always produce the same catalog and it can be cached or diffed.
+ */
+export class NodeCatalogBuilder {
+  static build(registry: NodeRegistry, options: NodeCatalogOptions = {}): NodeCatalog {
+    const types = registry.getAvailableTypes().sort()
+    const nodes: NodeCatalogEntry[] = []
+
+    for (const type of types) {
+      const latest = registry.resolveVersion(type)
+      const versions = options.allVersions ? registry.getVersions(type) : [latest!]
+
+      for (const version of versions) {
+        const metadata = registry.getNodeMetadata(type, version)
+        if (metadata) {
+          nodes.push(NodeCatalogBuilder.buildEntry(type, version, version === latest, metadata, options))
+        }
+      }
+    }
+
+    return { catalogVersion: NODE_CATALOG_VERSION, schemaDialect: JSON_SCHEMA_DIALECT, nodes }
+  }
+
+  static buildEntry(
+    type: string,
+    version: string,
+    latest: boolean,
+    metadata: NodeMetadata,
+    options: NodeCatalogOptions = {}
+  ): NodeCatalogEntry {
+    const inputs = metadata.inputs || []
+    const outputs = metadata.outputs || []
+
+    const entry: NodeCatalogEntry = {
+      type,
+      version,
+      latest,
+      name: metadata.name,
+      description: metadata.description,
+      category: metadata.category,
+      icon: metadata.icon,
+      tags: metadata.tags || [],
+      relatedNodes: metadata.relatedNodes || [],
+      deprecated: metadata.deprecated,
+      inputSchema: JsonSchemaBuilder.fromInputs(inputs),
+      outputSchema: JsonSchemaBuilder.fromOutputs(outputs),
+      configurationSchema: JsonSchemaBuilder.fromConfiguration(metadata.configuration),
+      inputs: inputs.map(input => input.name),
+      outputs: outputs.map(output => output.name),
+      documentation: options.includeDocumentation === false ? undefined : metadata.documentation
+    }
+
+    // Leave absent fields out rather than serializing them as undefined/null
+    for (const key of ['icon', 'deprecated', 'documentation'] as const) {
+      if (entry[key] === undefined) delete entry[key]
+    }
+
+    return entry
+  }
+
+  /**
+   * Whether a UI built against `catalogVersion` can read this library's catalogs
+   */
+  static isCompatible(catalogVersion: string): boolean {
+    const current = SemverUtils.parse(NODE_CATALOG_VERSION)!
+    const other = SemverUtils.parse(catalogVersion)
+    return other !== null && other.major === current.major
+  }
+}
@@ -1,65 +1,193 @@
+import { cloneDeep } from "lodash";
 import { INode } from "../interfaces/node.interface";
-import { BaseNode, NodeMetadata } from "./base-node";
+import { SemverUtils } from "../utils/semver";
+import { NodeDeprecationMetadata, NodeMetadata } from "./base-node";
+import { NodeCatalog, NodeCatalogBuilder, NodeCatalogOptions } from "./node-catalog";
 
+export interface NodeRegistrationOptions {
+  /** Defaults to the version declared by getMetadata(), then by an instance, then 1.0.0 */
+  version?: string;
+  /** Marks this version as deprecated; defaults to getMetadata().deprecated */
+  deprecated?: boolean | NodeDeprecationMetadata;
+}
+
+export interface NodeRegistration {
+  type: string;
+  version: string;
+  nodeClass: new (...args: any[]) => INode;
+  deprecation?: NodeDeprecationMetadata;
+  /**
+   * Set when the class has no static getMetadata(): its metadata is generated from an unconfigured
+   * instance and it declares no compatibility rules
+   */
+  generatedMetadata?: boolean;
+}
+
+/**
+ * Node classes by type and version.
+ * Lookups take an optional semver range (e.g. "^1.0.0") and resolve to the highest matching
+ * version; without one they resolve to the latest release.
+ */
 export class NodeRegistry {
-  private nodes: Map<string, any> = new Map();
+  private nodes: Map<string, Map<string, NodeRegistration>> = new Map();
 
   register<T extends INode>(
     nodeClass: new (...args: any[]) => T,
-    type: string
-  ): void {
-    this.nodes.set(type, nodeClass);
+    type: string,
+    options: NodeRegistrationOptions = {}
+  ): NodeRegistration {
+    const version = options.version ?? this.detectVersion(nodeClass);
+    if (!SemverUtils.valid(version)) {
+      throw new Error(`Invalid version '${version}' for node type '${type}'`);
+    }
+
+    const declared = this.readMetadata(nodeClass)?.deprecated;
+    const deprecation =
+      options.deprecated === undefined
+        ? declared
+        : options.deprecated === true
+          ? declared || {}
+          : options.deprecated || undefined;
+
+    const registration: NodeRegistration = { type, version, nodeClass, deprecation };
+    if (typeof (nodeClass as any).getMetadata !== "function") {
+      registration.generatedMetadata = true;
+    }
+
+    if (!this.nodes.has(type)) {
+      this.nodes.set(type, new Map());
+    }
+    this.nodes.get(type)!.set(version, registration);
+    return registration;
+  }
+
+  /**
+   * Register a node class under the type and version declared by its getMetadata().
+   * Throws when getMetadata() is missing or disagrees with the type or version of an instance.
+   */
+  registerNode<T extends INode>(
+    nodeClass: new (...args: any[]) => T,
+    options: Omit<NodeRegistrationOptions, "version"> = {}
+  ): NodeRegistration {
+    const metadata = this.checkNodeClass(nodeClass);
+    return this.register(nodeClass, metadata.type, { ...options, version: metadata.version });
+  }
+
+  create<T extends INode>(type: string, config: any, versionRange?: string): T {
+    const registration = this.resolve(type, versionRange);
+    if (!registration) {
+      throw new Error(this.describeMissing(type, versionRange));
+    }
+    return new registration.nodeClass(config) as T;
   }
 
-  create<T extends INode>(type: string, config: any): T {
-    const NodeClass = this.nodes.get(type);
-    if (!NodeClass) {
-      throw new Error(`Node type '${type}' not found`);
+  /**
+   * Registration of the highest version in `versionRange`, or of the latest release when no
+   * range is given. Throws when the range is not valid semver.
+   */
+  resolve(type: string, versionRange?: string): NodeRegistration | null {
+    const versions = this.nodes.get(type);
+    if (!versions || versions.size === 0) {
+      return null;
     }
-    return new NodeClass(config);
+
+    const available = Array.from(versions.keys());
+    let version: string | null;
+
+    if (versionRange === undefined || versionRange === "") {
+      // Prereleases are only picked by default when nothing else is registered
+      const releases = available.filter((v) => SemverUtils.parse(v)!.prerelease.length === 0);
+      version = SemverUtils.sort(releases.length > 0 ? releases : available).pop()!;
+    } else {
+      if (!SemverUtils.validRange(versionRange)) {
+        throw new Error(`Invalid version range '${versionRange}' for node type '${type}'`);
+      }
+      version = SemverUtils.maxSatisfying(available, versionRange);
+    }
+
+    return version ? versions.get(version)! : null;
+  }
+
+  resolveVersion(type: string, versionRange?: string): string | null {
+    return this.resolve(type, versionRange)?.version ?? null;
+  }
+
+  /**
+   * Registered versions of a type, lowest first
+   */
+  getVersions(type: string): string[] {
+    return SemverUtils.sort(Array.from(this.nodes.get(type)?.keys() || []));
+  }
+
+  getDeprecation(type: string, versionRange?: string): NodeDeprecationMetadata | null {
+    return this.resolve(type, versionRange)?.deprecation ?? null;
   }
 
   getAvailableTypes(): string[] {
     return Array.from(this.nodes.keys());
   }
 
+  /**
+   * Latest node class per type
+   */
   getAllNodes(): Map<string, any> {
-    return new Map(this.nodes);
+    const nodes = new Map<string, any>();
+    for (const type of this.nodes.keys()) {
+      nodes.set(type, this.resolve(type)!.nodeClass);
+    }
+    return nodes;
+  }
+
+  /**
+   * Every registered type and version
+   */
+  getRegistrations(): NodeRegistration[] {
+    return Array.from(this.nodes.values()).flatMap((versions) =>
+      SemverUtils.sort(Array.from(versions.keys())).map((version) => versions.get(version)!)
+    );
   }
 
   existsByTypeAndVersion(type: string, version: string): boolean {
-    // For now, check if the type exists - in a real implementation,
-    // you might store version information separately
-    return this.nodes.has(type);
+    try {
+      return this.resolve(type, version) !== null;
+    } catch {
+      return false;
+    }
   }
 
-  getNodeMetadata(type: string): NodeMetadata | null {
-    const NodeClass = this.nodes.get(type);
-    if (!NodeClass) {
+  getNodeMetadata(type: string, versionRange?: string): NodeMetadata | null {
+    let registration: NodeRegistration | null;
+    try {
+      registration = this.resolve(type, versionRange);
+    } catch {
+      return null;
+    }
+    if (!registration) {
       return null;
     }
 
+    const NodeClass: any = registration.nodeClass;
+
     // Call static getMetadata method if it exists
     if (typeof NodeClass.getMetadata === "function") {
-      try {
-        return NodeClass.getMetadata();
-      } catch (error) {
-        console.warn(`Failed to get metadata for node type '${type}':`, error);
-        return null;
-      }
+      const metadata = this.readMetadata(NodeClass);
+      return metadata
+        ? { ...metadata, version: registration.version, deprecated: registration.deprecation }
+        : null;
     }
 
     // Fallback: create temporary instance to get basic metadata
     try {
-      const instance = new NodeClass();
+      const instance = new NodeClass({});
       return {
         type: instance.type || type,
         name: instance.constructor.name.replace(/Node$/, ""),
         description: `Auto-generated metadata for ${type}`,
-        version: instance.version || "1.0.0",
+        version: registration.version,
         category: instance.category || "transformation",
         inputs: [],
         outputs: [],
+        deprecated: registration.deprecation,
       };
     } catch (error) {
       console.warn(
@@ -70,6 +198,22 @@ export class NodeRegistry {
     }
   }
 
+  /**
+   * The defaultValue of each input the node metadata declares, keyed by input name
+   */
+  getInputDefaults(type: string, versionRange?: string): Record<string, any> {
+    const defaults: Record<string, any> = {};
+    for (const input of this.getNodeMetadata(type, versionRange)?.inputs || []) {
+      if (input.defaultValue !== undefined) {
+        defaults[input.name] = cloneDeep(input.defaultValue);
+      }
+    }
+    return defaults;
+  }
+
+  /**
+   * Metadata of the latest version of every type
+   */
   getAllNodesMetadata(): Map<string, NodeMetadata> {
     const metadata = new Map<string, NodeMetadata>();
 
@@ -82,4 +226,101 @@ export class NodeRegistry {
 
     return metadata;
   }
+
+  /**
+   * Inputs, outputs and configuration of the registered nodes as JSON Schema, for UIs to render forms
+   */
+  getCatalog(options: NodeCatalogOptions = {}): NodeCatalog {
+    return NodeCatalogBuilder.build(this, options);
+  }
+
+  /**
+   * Metadata of a node class after the checks registerNode() runs: getMetadata() exists and declares a
+   * type and a valid version, and an unconfigured instance has the same type and version.
+   * Throws describing the first problem.
+   */
+  checkNodeClass(nodeClass: any): NodeMetadata {
+    const name = nodeClass?.name || "anonymous";
+
+    if (typeof nodeClass?.getMetadata !== "function") {
+      throw new Error(`Node class '${name}' has no static getMetadata() to read its type and version from`);
+    }
+
+    let metadata: NodeMetadata;
+    try {
+      metadata = nodeClass.getMetadata();
+    } catch (error) {
+      throw new Error(
+        `getMetadata() of node class '${name}' failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (typeof metadata?.type !== "string" || metadata.type === "") {
+      throw new Error(`Node class '${name}' declares no type in getMetadata()`);
+    }
+    if (!SemverUtils.valid(metadata.version)) {
+      throw new Error(`Node class '${name}' declares invalid version '${metadata.version}' in getMetadata()`);
+    }
+
+    let instance: INode;
+    try {
+      instance = new nodeClass({});
+    } catch (error) {
+      throw new Error(
+        `Node class '${name}' cannot be instantiated to check its type and version: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    if (instance.type !== metadata.type) {
+      throw new Error(
+        `Node class '${name}' declares type '${metadata.type}' in getMetadata() but its instances have type '${instance.type}'`
+      );
+    }
+    if (instance.version !== metadata.version) {
+      throw new Error(
+        `Node class '${name}' declares version '${metadata.version}' in getMetadata() but its instances have version '${instance.version}'`
+      );
+    }
+
+    return metadata;
+  }
+
+  private readMetadata(nodeClass: any): NodeMetadata | null {
+    if (typeof nodeClass.getMetadata !== "function") {
+      return null;
+    }
+
+    try {
+      return nodeClass.getMetadata();
+    } catch (error) {
+      console.warn(`Failed to get metadata for node class '${nodeClass.name}':`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Declared versions predate semver checks, so loose ones like "1" are coerced rather than rejected
+   */
+  private detectVersion(nodeClass: any): string {
+    let declared = this.readMetadata(nodeClass)?.version;
+    if (!declared) {
+      try {
+        declared = new nodeClass({}).version;
+      } catch {
+        declared = undefined;
+      }
+    }
+
+    return (declared && SemverUtils.coerce(declared)) || "1.0.0";
+  }
+
+  private describeMissing(type: string, versionRange?: string): string {
+    const versions = this.getVersions(type);
+    if (versions.length === 0 || !versionRange) {
+      return `Node type '${type}' not found`;
+    }
+    return `No version of node type '${type}' matches '${versionRange}' (available: ${versions.join(", ")})`;
+  }
 }
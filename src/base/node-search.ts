@@ -0,0 +1,258 @@
+import { NodeRegistry } from './node-registry'
+import { NodeMetadata } from './base-node'
+import { CompatibilityLevel, WILDCARD_PIN } from '../interfaces/compatibility.interface'
+import { CompatibilityValidator } from '../validators/compatibility-validator'
+
+type NodeCategory = NodeMetadata['category']
+
+export interface NodeQuery {
+  category?: NodeCategory | NodeCategory[]
+  /** Nodes carrying all of these tags; case-insensitive */
+  tags?: string[]
+  /** Words matched against type, name, tags, description and documentation; every word must match */
+  text?: string
+  /** Deprecated nodes are left out unless set */
+  includeDeprecated?: boolean
+  limit?: number
+}
+
+export interface NodeSearchResult {
+  type: string
+  version: string
+  metadata: NodeMetadata
+  /** Relevance for `text`, higher first; 0 without text */
+  score: number
+  /** Fields `text` matched in: type, name, tags, description, documentation */
+  matchedFields: string[]
+}
+
+export interface NodeSuggestionOptions {
+  /** Semver range of the source node version; the latest when omitted */
+  version?: string
+  /** Output pin being connected; any pin when omitted */
+  outputPin?: string
+  /** Source node config, to evaluate rule conditions */
+  config?: Record<string, any>
+  includeDeprecated?: boolean
+  limit?: number
+}
+
+export interface NodeSuggestion {
+  type: string
+  version: string
+  outputPin: string
+  /** Input pin of the suggested node the output connects to */
+  inputPin: string
+  compatibility: CompatibilityLevel
+  transformationRequired: boolean
+  /** Listed in the source node's relatedNodes */
+  related: boolean
+  metadata: NodeMetadata
+}
+
+const FIELD_WEIGHTS = {
+  type: 8,
+  name: 8,
+  tags: 5,
+  description: 2,
+  documentation: 1
+}
+
+const LEVEL_RANK: Record<CompatibilityLevel, number> = {
+  full: 3,
+  partial: 2,
+  conditional: 1,
+  none: 0
+}
+
+/**
+ * Queries over the latest version of each registered node, for node palettes and autocomplete:
+ * filters by category and tags, ranked full-text search, and the nodes an output can connect to next.
+ */
+export class NodeSearch {
+  private readonly compatibility: CompatibilityValidator
+
+  constructor(private readonly registry: NodeRegistry, compatibility?: CompatibilityValidator) {
+    this.compatibility = compatibility || new CompatibilityValidator(registry)
+  }
+
+  /**
+   * Nodes matching every given criterion, ranked by text relevance and then by type
+   */
+  find(query: NodeQuery = {}): NodeSearchResult[] {
+    const categories = query.category === undefined
+      ? null
+      : Array.isArray(query.category) ? query.category : [query.category]
+    const tags = (query.tags || []).map(tag => tag.toLowerCase())
+    const terms = NodeSearch.tokenize(query.text || '')
+
+    const results: NodeSearchResult[] = []
+
+    for (const [type, metadata] of this.getLatest()) {
+      if (metadata.deprecated && !query.includeDeprecated) continue
+      if (categories && !categories.includes(metadata.category)) continue
+
+      const nodeTags = (metadata.tags || []).map(tag => tag.toLowerCase())
+      if (!tags.every(tag => nodeTags.includes(tag))) continue
+
+      const match = this.matchText(type, metadata, terms)
+      if (!match) continue
+
+      results.push({ type, version: metadata.version, metadata, ...match })
+    }
+
+    results.sort((a, b) => b.score - a.score || a.type.localeCompare(b.type))
+    return query.limit !== undefined ? results.slice(0, query.limit) : results
+  }
+
+  search(text: string, query: Omit<NodeQuery, 'text'> = {}): NodeSearchResult[] {
+    return this.find({ ...query, text })
+  }
+
+  findByCategory(category: NodeCategory): NodeSearchResult[] {
+    return this.find({ category })
+  }
+
+  findByTag(tag: string): NodeSearchResult[] {
+    return this.find({ tags: [tag] })
+  }
+
+  /**
+   * Categories and tags in use with their node counts, for palette sections and filters.
+   * Tags are lowercased, as find() compares them, so `SQL` and `sql` count as one.
+   */
+  getFacets(): { categories: Record<string, number>; tags: Record<string, number> } {
+    const categories: Record<string, number> = {}
+    const tags: Record<string, number> = {}
+
+    for (const [, metadata] of this.getLatest()) {
+      categories[metadata.category] = (categories[metadata.category] || 0) + 1
+      for (const tag of new Set((metadata.tags || []).map(tag => tag.toLowerCase()))) {
+        tags[tag] = (tags[tag] || 0) + 1
+      }
+    }
+
+    return { categories, tags }
+  }
+
+  /**
+   * Nodes an output of `type` can connect to, according to the compatibility rules. Best compatibility
+   * first; among equals, the source's relatedNodes in their declared order, then the rest by type.
+   */
+  suggestNext(type: string, options: NodeSuggestionOptions = {}): NodeSuggestion[] {
+    const source = this.registry.getNodeMetadata(type, options.version)
+    if (!source) {
+      const version = options.version ? ` version '${options.version}'` : ''
+      throw new Error(`Node type '${type}'${version} is not registered`)
+    }
+
+    const related = source.relatedNodes || []
+    const suggestions: NodeSuggestion[] = []
+
+    for (const [targetType, metadata] of this.getLatest()) {
+      if (metadata.deprecated && !options.includeDeprecated) continue
+
+      const result = this.compatibility.checkConnection(
+        { type, version: options.version, pin: options.outputPin, config: options.config },
+        { type: targetType }
+      )
+      if (!result.valid || !result.rule) continue
+
+      suggestions.push({
+        type: targetType,
+        version: metadata.version,
+        outputPin: result.rule.outputPin === WILDCARD_PIN ? options.outputPin ?? WILDCARD_PIN : result.rule.outputPin,
+        inputPin: result.rule.targetInputPin,
+        compatibility: result.level,
+        transformationRequired: !!result.transformationRequired,
+        related: related.includes(targetType),
+        metadata
+      })
+    }
+
+    const relatedRank = (suggestion: NodeSuggestion): number =>
+      suggestion.related ? related.indexOf(suggestion.type) : related.length
+
+    suggestions.sort((a, b) =>
+      LEVEL_RANK[b.compatibility] - LEVEL_RANK[a.compatibility] ||
+      relatedRank(a) - relatedRank(b) ||
+      a.type.localeCompare(b.type)
+    )
+    return options.limit !== undefined ? suggestions.slice(0, options.limit) : suggestions
+  }
+
+  private getLatest(): Map<string, NodeMetadata> {
+    return this.registry.getAllNodesMetadata()
+  }
+
+  /**
+   * Score of `terms` against the node, or null when a term matches nothing. Each term counts
+   * with the weight of the best field it appears in; a type or name equal to the whole text ranks first.
+   */
+  private matchText(type: string, metadata: NodeMetadata, terms: string[]): { score: number; matchedFields: string[] } | null {
+    if (terms.length === 0) {
+      return { score: 0, matchedFields: [] }
+    }
+
+    const fields: Record<keyof typeof FIELD_WEIGHTS, string> = {
+      type: NodeSearch.normalize(type),
+      name: NodeSearch.normalize(metadata.name || ''),
+      tags: NodeSearch.normalize((metadata.tags || []).join(' ')),
+      description: NodeSearch.normalize(metadata.description || ''),
+      documentation: NodeSearch.normalize(NodeSearch.documentationText(metadata))
+    }
+
+    const matched = new Set<string>()
+    let score = 0
+
+    for (const term of terms) {
+      let best = 0
+      for (const [field, text] of Object.entries(fields) as [keyof typeof FIELD_WEIGHTS, string][]) {
+        if (!text.includes(term)) continue
+        matched.add(field)
+        // Words starting with the term (autocomplete) weigh more than matches inside a word
+        const weight = new RegExp(`(^|[^\\p{L}\\p{N}])${NodeSearch.escape(term)}`, 'u').test(text)
+          ? FIELD_WEIGHTS[field]
+          : FIELD_WEIGHTS[field] / 2
+        best = Math.max(best, weight)
+      }
+
+      if (best === 0) return null
+      score += best
+    }
+
+    const phrase = terms.join(' ')
+    if ([fields.type, fields.name].some(text => NodeSearch.tokenize(text).join(' ') === phrase)) {
+      score += FIELD_WEIGHTS.name * 2
+    }
+
+    return { score, matchedFields: Object.keys(FIELD_WEIGHTS).filter(field => matched.has(field)) }
+  }
+
+  private static documentationText(metadata: NodeMetadata): string {
+    const documentation = metadata.documentation
+    if (!documentation) return ''
+
+    return [
+      documentation.purpose,
+      ...(documentation.requirements || []),
+      ...(documentation.limitations || []),
+      ...(documentation.bestPractices || []),
+      ...(documentation.usageExamples || []).flatMap(example => [example.title, example.description, example.notes]),
+      ...(documentation.troubleshooting || []).flatMap(entry => [entry.issue, entry.solution])
+    ].filter(Boolean).join('\n')
+  }
+
+  /** Lowercase without diacritics, so "pérez" is found by "perez" */
+  private static normalize(text: string): string {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+  }
+
+  private static tokenize(text: string): string[] {
+    return NodeSearch.normalize(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  }
+}
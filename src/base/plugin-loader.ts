@@ -0,0 +1,364 @@
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { NodeRegistry } from './node-registry'
+import { NodeDeprecationMetadata, NodeMetadata } from './base-node'
+import { SemverUtils } from '../utils/semver'
+
+/** Name of this library, as plugins list it in peerDependencies */
+export const CORE_PACKAGE_NAME = 'flow-platform-node-core'
+/** package.json field holding the plugin manifest */
+export const PLUGIN_MANIFEST_FIELD = 'flowPlatform'
+/** Standalone plugin descriptor, for directories that are not npm packages */
+export const PLUGIN_DESCRIPTOR_FILE = 'flow-plugin.json'
+
+export interface PluginNodeEntry {
+  /** Name under which the plugin module exports the node class */
+  export: string
+  /** Must match getMetadata().type when given */
+  type?: string
+  /** Must match getMetadata().version when given */
+  version?: string
+  deprecated?: boolean | NodeDeprecationMetadata
+}
+
+export interface PluginManifest {
+  name: string
+  version?: string
+  /** Semver range of flow-platform-node-core the plugin works with */
+  coreVersion: string
+  /** Module exporting the node classes, relative to the plugin root */
+  main: string
+  /** Exports to register; by default every exported class with a static getMetadata() */
+  nodes?: (string | PluginNodeEntry)[]
+}
+
+export interface LoadedPlugin {
+  name: string
+  version?: string
+  /** Directory the plugin was loaded from */
+  root: string
+  nodes: { type: string; version: string }[]
+}
+
+export interface PluginLoadReport {
+  loaded: LoadedPlugin[]
+  failed: { root: string; error: string }[]
+}
+
+export interface PluginLoaderOptions {
+  /** Version checked against each plugin's coreVersion; defaults to the version of this package */
+  coreVersion?: string
+  /** Directory package names and relative paths are resolved from; defaults to the working directory */
+  basedir?: string
+}
+
+interface PendingNode {
+  nodeClass: any
+  type: string
+  version: string
+  deprecated?: boolean | NodeDeprecationMetadata
+}
+
+/**
+ * Loads node classes from npm packages or plugin directories into a NodeRegistry.
+ * A plugin declares itself in package.json:
+ *
+ *   "flowPlatform": { "coreVersion": "^1.0.0", "nodes": ["GeocodeNode"] }
+ *
+ * or in a flow-plugin.json descriptor with the same fields plus `name` and `main`. A plugin either
+ * registers all of its nodes or, when any of them is invalid or conflicts, none.
+ */
+export class PluginLoader {
+  private readonly basedir: string
+  private readonly plugins: Map<string, LoadedPlugin> = new Map()
+  /** Plugin name by `type@version`, to name the owner of a conflicting node */
+  private readonly owners: Map<string, string> = new Map()
+  private coreVersion?: string
+
+  constructor(private readonly registry: NodeRegistry, options: PluginLoaderOptions = {}) {
+    this.basedir = options.basedir || process.cwd()
+    this.coreVersion = options.coreVersion
+  }
+
+  /**
+   * Load a plugin by package name (`@acme/flow-nodes`) or directory path (`./plugins/geo`)
+   */
+  async load(specifier: string): Promise<LoadedPlugin> {
+    return this.loadFrom(await this.resolveRoot(specifier))
+  }
+
+  /**
+   * Load every plugin found in `directory`, e.g. `node_modules` or a plugins folder.
+   * A failing plugin is reported without stopping the others.
+   */
+  async loadAll(directory: string): Promise<PluginLoadReport> {
+    const report: PluginLoadReport = { loaded: [], failed: [] }
+
+    for (const root of await this.discover(directory)) {
+      try {
+        report.loaded.push(await this.loadFrom(root))
+      } catch (error) {
+        report.failed.push({ root, error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    return report
+  }
+
+  /**
+   * Plugin roots directly inside `directory` (and inside its `@scope` folders), without loading them
+   */
+  async discover(directory: string): Promise<string[]> {
+    const base = path.resolve(this.basedir, directory)
+    const roots: string[] = []
+
+    for (const entry of await this.listDirectories(base)) {
+      const candidates = entry.startsWith('@')
+        ? (await this.listDirectories(path.join(base, entry))).map(name => path.join(base, entry, name))
+        : [path.join(base, entry)]
+
+      for (const candidate of candidates) {
+        if (await this.isPlugin(candidate)) {
+          roots.push(candidate)
+        }
+      }
+    }
+
+    return roots
+  }
+
+  getLoadedPlugins(): LoadedPlugin[] {
+    return Array.from(this.plugins.values())
+  }
+
+  /**
+   * Read and check the manifest of the plugin in `root`
+   */
+  async readManifest(root: string): Promise<PluginManifest> {
+    const pkg = await this.readJson(path.join(root, 'package.json'))
+    const descriptor = await this.readJson(path.join(root, PLUGIN_DESCRIPTOR_FILE))
+    const declared = descriptor ?? pkg?.[PLUGIN_MANIFEST_FIELD]
+
+    if (!declared || typeof declared !== 'object') {
+      throw new Error(
+        `'${root}' is not a node plugin: add a "${PLUGIN_MANIFEST_FIELD}" field to its package.json or a ${PLUGIN_DESCRIPTOR_FILE}`
+      )
+    }
+
+    const manifest: PluginManifest = {
+      name: declared.name ?? pkg?.name,
+      version: declared.version ?? pkg?.version,
+      coreVersion: declared.coreVersion ?? pkg?.peerDependencies?.[CORE_PACKAGE_NAME],
+      main: declared.main ?? pkg?.main ?? 'index.js',
+      nodes: declared.nodes
+    }
+
+    if (typeof manifest.name !== 'string' || manifest.name === '') {
+      throw new Error(`Plugin in '${root}' has no name`)
+    }
+    if (typeof manifest.coreVersion !== 'string') {
+      throw new Error(
+        `Plugin '${manifest.name}' does not declare the ${CORE_PACKAGE_NAME} versions it supports (coreVersion or peerDependencies)`
+      )
+    }
+    if (!SemverUtils.validRange(manifest.coreVersion)) {
+      throw new Error(`Plugin '${manifest.name}' has an invalid coreVersion range '${manifest.coreVersion}'`)
+    }
+    if (manifest.nodes !== undefined && !Array.isArray(manifest.nodes)) {
+      throw new Error(`Plugin '${manifest.name}' must list its nodes as an array`)
+    }
+
+    return manifest
+  }
+
+  private async loadFrom(root: string): Promise<LoadedPlugin> {
+    const manifest = await this.readManifest(root)
+
+    const previous = this.plugins.get(manifest.name)
+    if (previous) {
+      throw new Error(`Plugin '${manifest.name}' is already loaded from '${previous.root}'`)
+    }
+
+    const coreVersion = await this.getCoreVersion()
+    if (!SemverUtils.satisfies(coreVersion, manifest.coreVersion)) {
+      throw new Error(
+        `Plugin '${manifest.name}' requires ${CORE_PACKAGE_NAME} ${manifest.coreVersion}, but ${coreVersion} is installed`
+      )
+    }
+
+    const file = path.resolve(root, manifest.main)
+    let exported: Record<string, any>
+    try {
+      exported = require(file)
+    } catch (error) {
+      throw new Error(
+        `Failed to load plugin '${manifest.name}' from '${file}': ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+
+    const nodes = this.collectNodes(manifest, exported)
+    for (const node of nodes) {
+      this.registry.registerNode(node.nodeClass, { deprecated: node.deprecated })
+      this.owners.set(`${node.type}@${node.version}`, manifest.name)
+    }
+
+    const plugin: LoadedPlugin = {
+      name: manifest.name,
+      version: manifest.version,
+      root,
+      nodes: nodes.map(({ type, version }) => ({ type, version }))
+    }
+    this.plugins.set(plugin.name, plugin)
+    return plugin
+  }
+
+  /**
+   * Node classes to register, checked before any of them is; throws with every problem found
+   */
+  private collectNodes(manifest: PluginManifest, exported: Record<string, any>): PendingNode[] {
+    const entries: PluginNodeEntry[] = manifest.nodes
+      ? manifest.nodes.map(entry => (typeof entry === 'string' ? { export: entry } : entry))
+      : Object.keys(exported || {})
+        .filter(name => typeof exported[name] === 'function' && typeof exported[name].getMetadata === 'function')
+        .map(name => ({ export: name }))
+
+    if (entries.length === 0) {
+      throw new Error(`Plugin '${manifest.name}' exports no node classes with a static getMetadata()`)
+    }
+
+    const problems: string[] = []
+    const nodes: PendingNode[] = []
+    const seen = new Set<string>()
+
+    for (const entry of entries) {
+      const nodeClass = exported?.[entry?.export]
+      const label = `'${entry?.export}'`
+
+      if (typeof nodeClass !== 'function') {
+        problems.push(`${label} is not an exported class`)
+        continue
+      }
+      if (typeof nodeClass.prototype?.execute !== 'function') {
+        problems.push(`${label} does not implement execute()`)
+        continue
+      }
+
+      // The same checks registerNode() runs, so a plugin cannot register a class under another identity
+      let metadata: NodeMetadata
+      try {
+        metadata = this.registry.checkNodeClass(nodeClass)
+      } catch (error) {
+        problems.push(`${label}: ${error instanceof Error ? error.message : String(error)}`)
+        continue
+      }
+
+      const { type, version } = metadata
+      if (entry.type !== undefined && entry.type !== type) {
+        problems.push(`${label} is listed as type '${entry.type}' but getMetadata() declares '${type}'`)
+        continue
+      }
+      if (entry.version !== undefined && entry.version !== version) {
+        problems.push(`${label} is listed as version '${entry.version}' but getMetadata() declares '${version}'`)
+        continue
+      }
+
+      const key = `${type}@${version}`
+      if (seen.has(key)) {
+        problems.push(`${label} registers ${key} more than once`)
+        continue
+      }
+      if (this.registry.getVersions(type).includes(version)) {
+        const owner = this.owners.get(key)
+        problems.push(`${label} conflicts with ${key}, already registered${owner ? ` by plugin '${owner}'` : ''}`)
+        continue
+      }
+
+      seen.add(key)
+      nodes.push({ nodeClass, type, version, deprecated: entry.deprecated })
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Plugin '${manifest.name}' cannot be loaded:\n- ${problems.join('\n- ')}`)
+    }
+    return nodes
+  }
+
+  private async resolveRoot(specifier: string): Promise<string> {
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+      return path.resolve(this.basedir, specifier)
+    }
+
+    try {
+      return path.dirname(require.resolve(`${specifier}/package.json`, { paths: [this.basedir] }))
+    } catch {
+      // Packages whose "exports" hide package.json are still found in node_modules
+      const root = path.join(this.basedir, 'node_modules', specifier)
+      if (await this.isPlugin(root)) {
+        return root
+      }
+      throw new Error(`Cannot find plugin package '${specifier}' from '${this.basedir}'`)
+    }
+  }
+
+  private async isPlugin(root: string): Promise<boolean> {
+    if (await this.readJson(path.join(root, PLUGIN_DESCRIPTOR_FILE))) {
+      return true
+    }
+    const pkg = await this.readJson(path.join(root, 'package.json'))
+    return !!pkg?.[PLUGIN_MANIFEST_FIELD]
+  }
+
+  private async getCoreVersion(): Promise<string> {
+    if (this.coreVersion) {
+      return this.coreVersion
+    }
+
+    // Walk up from this module to the package root: the layout differs between src and dist
+    let directory = __dirname
+    while (true) {
+      const pkg = await this.readJson(path.join(directory, 'package.json'))
+      if (pkg?.name === CORE_PACKAGE_NAME && typeof pkg.version === 'string') {
+        this.coreVersion = pkg.version as string
+        return this.coreVersion
+      }
+
+      const parent = path.dirname(directory)
+      if (parent === directory) {
+        throw new Error(`Cannot determine the ${CORE_PACKAGE_NAME} version; pass coreVersion to PluginLoader`)
+      }
+      directory = parent
+    }
+  }
+
+  private async listDirectories(directory: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(directory, { withFileTypes: true })
+      return entries
+        .filter(entry => (entry.isDirectory() || entry.isSymbolicLink()) && !entry.name.startsWith('.'))
+        .map(entry => entry.name)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  /**
+   * Parsed JSON file, or null when it does not exist
+   */
+  private async readJson(file: string): Promise<any> {
+    let content: string
+    try {
+      content = await fs.readFile(file, 'utf8')
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code
+      if (code === 'ENOENT' || code === 'ENOTDIR') return null
+      throw error
+    }
+
+    try {
+      return JSON.parse(content)
+    } catch (error) {
+      throw new Error(`Invalid JSON in '${file}': ${(error as Error).message}`)
+    }
+  }
+}
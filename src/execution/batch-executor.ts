@@ -0,0 +1,188 @@
+import { get, set } from 'lodash'
+import { NodeResult } from '../interfaces/node.interface'
+import { WILDCARD_PIN } from '../interfaces/compatibility.interface'
+import { BatchMergeStrategy, NodeConfigurationMetadata } from '../base/base-node'
+
+export interface BatchOptions {
+  batchSize: number
+  /** Name of the array input that is split */
+  batchInput: string
+  /** Batches executed at the same time */
+  concurrency: number
+  /** Merge strategy by output pin or path, from `configuration.batchMerge` */
+  merge: Record<string, BatchMergeStrategy>
+}
+
+/**
+ * rollbackData of a batched execution: the rollback data of each successful batch, in batch order
+ */
+export interface BatchRollbackData {
+  batched: true
+  batches: any[]
+}
+
+/**
+ * Splits a large array input into batches of `configuration.batchSize`, runs the node once per
+ * batch and merges the results in batch order, whatever order the batches finished in, with the
+ * strategy the node declares for each output pin in `configuration.batchMerge`.
+ */
+export class BatchExecutor {
+  /**
+   * Null unless the node declares both the input to split and how to merge its outputs
+   */
+  static optionsFromMetadata(configuration?: NodeConfigurationMetadata): BatchOptions | null {
+    if (!configuration?.batchInput || !configuration.batchSize || configuration.batchSize < 1) {
+      return null
+    }
+    if (!configuration.batchMerge || Object.keys(configuration.batchMerge).length === 0) {
+      return null
+    }
+
+    return {
+      batchSize: configuration.batchSize,
+      batchInput: configuration.batchInput,
+      concurrency: Math.max(1, configuration.concurrency || 1),
+      merge: configuration.batchMerge
+    }
+  }
+
+  static shouldBatch(input: Record<string, any>, options: BatchOptions | null): options is BatchOptions {
+    const records = input?.[options?.batchInput ?? '']
+    return !!options && Array.isArray(records) && records.length > options.batchSize
+  }
+
+  /**
+   * Run `runBatch` for every batch, at most `concurrency` at a time.
+   * The first failing batch (by position) fails the execution and no further batches are started.
+   */
+  static async run(
+    input: Record<string, any>,
+    options: BatchOptions,
+    runBatch: (batchInput: Record<string, any>, index: number) => Promise<NodeResult>
+  ): Promise<NodeResult> {
+    const startTime = Date.now()
+    const records: any[] = input[options.batchInput]
+    const total = Math.ceil(records.length / options.batchSize)
+    const results: NodeResult[] = new Array(total)
+    let next = 0
+    let stopped = false
+
+    const worker = async (): Promise<void> => {
+      while (!stopped && next < total) {
+        const index = next++
+        const start = index * options.batchSize
+        const batch = records.slice(start, start + options.batchSize)
+
+        results[index] = await runBatch({ ...input, [options.batchInput]: batch }, index)
+        if (!results[index].success) stopped = true
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(options.concurrency, total) }, () => worker()))
+
+    return BatchExecutor.merge(results, options, startTime)
+  }
+
+  static isBatchRollback(rollbackData: any): rollbackData is BatchRollbackData {
+    return rollbackData?.batched === true && Array.isArray(rollbackData.batches)
+  }
+
+  /**
+   * Merge the batch outputs pin by pin with the declared strategies; `*` applies to every top-level
+   * pin without its own strategy. Pins without a strategy are left out.
+   */
+  static mergeData(outputs: any[], offsets: number[], merge: Record<string, BatchMergeStrategy>): any {
+    if (outputs.every(output => output === undefined)) return undefined
+
+    // Pins created at runtime are user input, e.g. router case names, so they must not touch the prototype
+    const merged: Record<string, any> = merge[WILDCARD_PIN] ? Object.create(null) : {}
+
+    if (merge[WILDCARD_PIN]) {
+      const pins = new Set<string>()
+      outputs.forEach(output => Object.keys(output || {}).forEach(pin => pins.add(pin)))
+
+      for (const pin of pins) {
+        if (BatchExecutor.hasOwn(merge, pin)) continue
+        const values = outputs.map(output => (BatchExecutor.hasOwn(output, pin) ? output[pin] : undefined))
+        merged[pin] = BatchExecutor.mergeValues(values, offsets, merge[WILDCARD_PIN])
+      }
+    }
+
+    for (const [path, strategy] of Object.entries(merge)) {
+      if (path === WILDCARD_PIN) continue
+
+      const values = outputs.map(output => get(output, path))
+      if (values.some(value => value !== undefined)) {
+        set(merged, path, BatchExecutor.mergeValues(values, offsets, strategy))
+      }
+    }
+
+    return merged
+  }
+
+  private static hasOwn(value: any, key: string): boolean {
+    return !!value && Object.prototype.hasOwnProperty.call(value, key)
+  }
+
+  private static mergeValues(values: any[], offsets: number[], strategy: BatchMergeStrategy): any {
+    const defined = values.filter(value => value !== undefined)
+
+    switch (strategy) {
+      case 'concat':
+        return ([] as any[]).concat(...defined)
+      case 'sum':
+        return defined.reduce((sum, value) => sum + (typeof value === 'number' ? value : 0), 0)
+      case 'offsetKeys': {
+        const merged: Record<number, any> = {}
+        values.forEach((value, batch) => {
+          for (const [key, item] of Object.entries(value || {})) {
+            merged[offsets[batch] + Number(key)] = item
+          }
+        })
+        return merged
+      }
+      case 'first':
+        return defined[0]
+    }
+  }
+
+  private static merge(results: NodeResult[], options: BatchOptions, startTime: number): NodeResult {
+    const completed = results.filter(result => result !== undefined)
+    const successful = completed.filter(result => result.success)
+    const failedIndex = results.findIndex(result => result !== undefined && !result.success)
+
+    const metrics = {
+      executionTime: Date.now() - startTime,
+      recordsProcessed: completed.reduce((sum, result) => sum + (result.metrics?.recordsProcessed || 0), 0),
+      attempts: completed.reduce((sum, result) => sum + (result.metrics?.attempts || 1), 0)
+    }
+
+    const rollbacks = successful.map(result => result.rollbackData).filter(data => data !== undefined)
+    const rollbackData: BatchRollbackData | undefined = rollbacks.length > 0
+      ? { batched: true, batches: rollbacks }
+      : undefined
+
+    if (failedIndex >= 0) {
+      const failed = results[failedIndex]
+      return {
+        success: false,
+        cancelled: failed.cancelled,
+        retryable: false,
+        error: `Batch ${failedIndex + 1}/${results.length} failed: ${failed.error}`,
+        metrics,
+        rollbackData
+      }
+    }
+
+    return {
+      success: true,
+      data: BatchExecutor.mergeData(
+        results.map(result => result.data),
+        results.map((_, index) => index * options.batchSize),
+        options.merge
+      ),
+      metrics,
+      rollbackData
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { cloneDeep } from 'lodash'
+import { NodeResult } from '../interfaces/node.interface'
+import { FlowDefinition } from '../interfaces/flow.interface'
+
+export type CheckpointStatus = 'running' | 'completed' | 'failed' | 'cancelled'
+
+export interface ExecutionCheckpoint {
+  executionId: string
+  flowId: string
+  /** Kept so the execution can be resumed without the original request */
+  flowData: FlowDefinition
+  inputs?: Record<string, any>
+  status: CheckpointStatus
+  startedAt: string
+  updatedAt: string
+}
+
+/**
+ * Persists executions and the NodeResult of each node, keyed by executionId/nodeId
+ */
+export interface CheckpointStore {
+  saveExecution(checkpoint: ExecutionCheckpoint): Promise<void>
+  getExecution(executionId: string): Promise<ExecutionCheckpoint | null>
+  saveNodeResult(executionId: string, nodeId: string, result: NodeResult): Promise<void>
+  getNodeResults(executionId: string): Promise<Record<string, NodeResult>>
+  deleteExecution(executionId: string): Promise<void>
+}
+
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private executions: Map<string, ExecutionCheckpoint> = new Map()
+  private nodeResults: Map<string, Map<string, NodeResult>> = new Map()
+
+  async saveExecution(checkpoint: ExecutionCheckpoint): Promise<void> {
+    this.executions.set(checkpoint.executionId, cloneDeep(checkpoint))
+  }
+
+  async getExecution(executionId: string): Promise<ExecutionCheckpoint | null> {
+    const checkpoint = this.executions.get(executionId)
+    return checkpoint ? cloneDeep(checkpoint) : null
+  }
+
+  async saveNodeResult(executionId: string, nodeId: string, result: NodeResult): Promise<void> {
+    if (!this.nodeResults.has(executionId)) {
+      this.nodeResults.set(executionId, new Map())
+    }
+    this.nodeResults.get(executionId)!.set(nodeId, cloneDeep(result))
+  }
+
+  async getNodeResults(executionId: string): Promise<Record<string, NodeResult>> {
+    const results: Record<string, NodeResult> = {}
+    for (const [nodeId, result] of this.nodeResults.get(executionId) || []) {
+      results[nodeId] = cloneDeep(result)
+    }
+    return results
+  }
+
+  async deleteExecution(executionId: string): Promise<void> {
+    this.executions.delete(executionId)
+    this.nodeResults.delete(executionId)
+  }
+}
+
+/**
+ * One directory per execution with `execution.json` and one JSON file per node, so nodes
+ * finishing concurrently never rewrite the same file. Values go through JSON: dates become
+ * strings and ObjectIds their hex form.
+ */
+export class FileSystemCheckpointStore implements CheckpointStore {
+  constructor(private readonly directory: string) {}
+
+  async saveExecution(checkpoint: ExecutionCheckpoint): Promise<void> {
+    await this.writeJson(path.join(this.executionDir(checkpoint.executionId), 'execution.json'), checkpoint)
+  }
+
+  async getExecution(executionId: string): Promise<ExecutionCheckpoint | null> {
+    return this.readJson<ExecutionCheckpoint>(path.join(this.executionDir(executionId), 'execution.json'))
+  }
+
+  async saveNodeResult(executionId: string, nodeId: string, result: NodeResult): Promise<void> {
+    await this.writeJson(path.join(this.nodesDir(executionId), `${encodeURIComponent(nodeId)}.json`), result)
+  }
+
+  async getNodeResults(executionId: string): Promise<Record<string, NodeResult>> {
+    let files: string[]
+    try {
+      files = await fs.readdir(this.nodesDir(executionId))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {}
+      throw error
+    }
+
+    const results: Record<string, NodeResult> = {}
+    for (const file of files.filter(name => name.endsWith('.json')).sort()) {
+      const result = await this.readJson<NodeResult>(path.join(this.nodesDir(executionId), file))
+      if (result) results[decodeURIComponent(file.slice(0, -'.json'.length))] = result
+    }
+    return results
+  }
+
+  async deleteExecution(executionId: string): Promise<void> {
+    await fs.rm(this.executionDir(executionId), { recursive: true, force: true })
+  }
+
+  private executionDir(executionId: string): string {
+    if (executionId === '.' || executionId === '..') {
+      throw new Error(`Invalid execution id '${executionId}'`)
+    }
+    return path.join(this.directory, encodeURIComponent(executionId))
+  }
+
+  private nodesDir(executionId: string): string {
+    return path.join(this.executionDir(executionId), 'nodes')
+  }
+
+  /**
+   * Write to a temporary file first so a crash never leaves a truncated checkpoint
+   */
+  private async writeJson(file: string, value: any): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    const temporary = `${file}.${process.pid}.tmp`
+    await fs.writeFile(temporary, JSON.stringify(value), 'utf8')
+    await fs.rename(temporary, file)
+  }
+
+  private async readJson<T>(file: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+}
@@ -0,0 +1,234 @@
+import { cloneDeep, isEqual } from 'lodash'
+import { NodeRegistry } from '../base/node-registry'
+import { NodeMetadata } from '../base/base-node'
+import { INode, NodeResult } from '../interfaces/node.interface'
+import { ExecutionContext } from '../interfaces/execution-context.interface'
+import { ValidationResult } from '../interfaces/validation.interface'
+import { FlowExecutionRequest, FlowExecutionResult, FlowExecutor, FlowExecutorOptions, FlowRunOptions } from './flow-executor'
+
+/**
+ * Categories whose nodes touch external systems and return fixtures in a dry run
+ */
+export const DEFAULT_MOCKED_CATEGORIES = ['database', 'external-api', 'notification', 'storage', 'ai-ml']
+
+/**
+ * Fixture returned instead of running a node: its output `data`, or an `error` to simulate a failure
+ */
+export interface DryRunMock {
+  data?: any
+  error?: string
+}
+
+/** Where the output of a mocked node came from */
+export type DryRunFixtureSource = 'mock' | 'type-mock' | 'example' | 'empty'
+
+export interface DryRunTraceEntry {
+  nodeId: string
+  type: string
+  mocked: boolean
+  source?: DryRunFixtureSource
+  /** Input the node received, after defaults, expressions and wired pins were applied */
+  input: any
+  result: NodeResult
+  startedAt: string
+  duration: number
+}
+
+export interface DryRunExecutorOptions extends Omit<FlowExecutorOptions, 'checkpointStore'> {
+  /** Categories mocked by default; nodes outside them run for real unless a mock is supplied */
+  mockCategories?: string[]
+}
+
+export interface DryRunOptions extends FlowRunOptions {
+  /**
+   * Fixtures by node id; they also apply to nodes that would otherwise run for real. Nodes of a
+   * for-each sub-flow are `<for-each id>.<node id>`, or `<for-each id>[<index>].<node id>` for one record.
+   */
+  mocks?: Record<string, DryRunMock>
+  /** Fixtures by node type */
+  typeMocks?: Record<string, DryRunMock>
+}
+
+export interface DryRunResult extends FlowExecutionResult {
+  /** Every node execution in call order; retried or batched nodes appear once per call */
+  trace: DryRunTraceEntry[]
+}
+
+/**
+ * Registry whose nodes return fixtures instead of running when they are mocked, and record
+ * every execution in the trace. Nodes created by other nodes (e.g. for-each) go through it too.
+ * Whether a node is mocked depends on its id, so input validation moves into execute() and only
+ * runs for nodes that run for real: fixtures do not need the input the real node requires.
+ */
+class MockingRegistry extends NodeRegistry {
+  readonly trace: DryRunTraceEntry[] = []
+
+  constructor(
+    source: NodeRegistry,
+    private readonly mockCategories: string[],
+    private readonly options: DryRunOptions
+  ) {
+    super()
+    for (const { nodeClass, type, version, deprecation } of source.getRegistrations()) {
+      this.register(nodeClass, type, { version, deprecated: deprecation || false })
+    }
+  }
+
+  create<T extends INode>(type: string, config: any, versionRange?: string): T {
+    const instance = super.create<T>(type, config, versionRange)
+    const execute = instance.execute.bind(instance)
+    const validateInput = instance.validateInput
+      ? instance.validateInput.bind(instance)
+      : (input: any): ValidationResult => ({ valid: instance.validate(input), errors: [], warnings: [] })
+
+    instance.validate = () => true
+    instance.validateInput = () => ({ valid: true, errors: [], warnings: [] })
+
+    instance.execute = async (input: any, context?: ExecutionContext) => {
+      const startTime = Date.now()
+      const nodeId = context?.nodeId ?? ''
+      const fixture = this.findFixture(instance, nodeId, input, versionRange)
+      const validation = fixture ? null : validateInput(input)
+
+      const result = fixture
+        ? this.fixtureResult(fixture.mock, startTime)
+        : !validation!.valid
+        ? this.invalidInputResult(nodeId, type, validation!)
+        : await execute(input, context)
+
+      this.trace.push({
+        nodeId,
+        type,
+        mocked: !!fixture,
+        source: fixture?.source,
+        input,
+        result,
+        startedAt: new Date(startTime).toISOString(),
+        duration: Date.now() - startTime
+      })
+      return result
+    }
+
+    return instance
+  }
+
+  /**
+   * Node id mocks first, then type mocks; nodes in a mocked category fall back to the closest
+   * usage example and, without examples, to empty outputs. Null means the node runs for real.
+   */
+  private findFixture(
+    instance: INode,
+    nodeId: string,
+    input: any,
+    versionRange?: string
+  ): { mock: DryRunMock; source: DryRunFixtureSource } | null {
+    // Sub-flow nodes run once per record, e.g. `loop[2].lookup`, and can be mocked for every record
+    const mock = this.options.mocks?.[nodeId] ?? this.options.mocks?.[nodeId.replace(/\[\d+\]/g, '')]
+    if (mock) {
+      return { mock, source: 'mock' }
+    }
+    if (this.options.typeMocks?.[instance.type]) {
+      return { mock: this.options.typeMocks[instance.type], source: 'type-mock' }
+    }
+
+    const metadata = this.getNodeMetadata(instance.type, versionRange)
+    if (!this.mockCategories.includes(metadata?.category ?? instance.category)) {
+      return null
+    }
+
+    const example = this.closestExample(metadata, input)
+    return example
+      ? { mock: { data: example }, source: 'example' }
+      : { mock: { data: this.emptyOutput(metadata) }, source: 'empty' }
+  }
+
+  /**
+   * expectedOutput of the usage example sharing the most input values with the actual input
+   */
+  private closestExample(metadata: NodeMetadata | null, input: any): any {
+    let best: { score: number; output: any } | undefined
+
+    for (const example of metadata?.documentation?.usageExamples || []) {
+      const score = Object.entries(example.inputExample)
+        .filter(([key, value]) => isEqual(input?.[key], value))
+        .length
+      if (!best || score > best.score) {
+        best = { score, output: example.expectedOutput }
+      }
+    }
+
+    return best && cloneDeep(best.output)
+  }
+
+  private emptyOutput(metadata: NodeMetadata | null): Record<string, any> {
+    const empty: Record<string, any> = {}
+    for (const output of metadata?.outputs || []) {
+      switch (output.type) {
+        case 'array':
+          empty[output.name] = []
+          break
+        case 'number':
+          empty[output.name] = 0
+          break
+        case 'boolean':
+          empty[output.name] = false
+          break
+        case 'string':
+          empty[output.name] = ''
+          break
+        case 'object':
+          empty[output.name] = {}
+          break
+        default:
+          empty[output.name] = null
+      }
+    }
+    return empty
+  }
+
+  private invalidInputResult(nodeId: string, type: string, validation: ValidationResult): NodeResult {
+    const details = validation.errors.map(error => error.message).join('; ')
+    return {
+      success: false,
+      error: `Invalid input for node '${nodeId}' (${type})${details ? `: ${details}` : ''}`,
+      retryable: false
+    }
+  }
+
+  private fixtureResult(mock: DryRunMock, startTime: number): NodeResult {
+    if (mock.error !== undefined) {
+      return { success: false, error: mock.error, retryable: false }
+    }
+
+    return {
+      success: true,
+      data: cloneDeep(mock.data),
+      metrics: { executionTime: Date.now() - startTime, recordsProcessed: 0 }
+    }
+  }
+}
+
+/**
+ * Runs flows without touching external systems: nodes in the mocked categories (databases,
+ * APIs...) return fixtures while transformation and logic nodes run for real. Nothing is
+ * checkpointed, and the result carries a trace of every node execution for previews.
+ */
+export class DryRunExecutor {
+  private readonly mockCategories: string[]
+  private readonly executorOptions: FlowExecutorOptions
+
+  constructor(private readonly registry: NodeRegistry, options: DryRunExecutorOptions = {}) {
+    const { mockCategories, ...executorOptions } = options
+    this.mockCategories = mockCategories || DEFAULT_MOCKED_CATEGORIES
+    // Fixtures do not fail transiently, so retries would only repeat them
+    this.executorOptions = { ...executorOptions, policy: { retries: 0, ...executorOptions.policy } }
+  }
+
+  async execute(request: FlowExecutionRequest, options: DryRunOptions = {}): Promise<DryRunResult> {
+    const registry = new MockingRegistry(this.registry, this.mockCategories, options)
+    const executor = new FlowExecutor(registry, this.executorOptions)
+    const result = await executor.execute(request, { signal: options.signal })
+
+    return { ...result, trace: registry.trace }
+  }
+}
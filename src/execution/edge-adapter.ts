@@ -0,0 +1,85 @@
+import { get, set } from 'lodash'
+import { CompatibilityRule } from '../interfaces/compatibility.interface'
+
+export type TransformationFunction = (value: any, ...args: string[]) => any
+
+type RuleTransformation = NonNullable<CompatibilityRule['transformations']>[number]
+
+const BUILT_IN_FUNCTIONS: Record<string, TransformationFunction> = {
+  identity: value => value,
+  toArray: value => (value === undefined || value === null ? [] : Array.isArray(value) ? value : [value]),
+  first: value => (Array.isArray(value) ? value[0] : value),
+  last: value => (Array.isArray(value) ? value[value.length - 1] : value),
+  values: value => (value && typeof value === 'object' ? Object.values(value) : [value]),
+  // First record's field values in key order, e.g. a Mongo document → SQL parameters
+  firstValues: value => {
+    const record = Array.isArray(value) ? value[0] : value
+    if (record === undefined || record === null) return []
+    return typeof record === 'object'
+      ? Object.entries(record).filter(([key]) => key !== '_id').map(([, fieldValue]) => fieldValue)
+      : [record]
+  },
+  pluck: (value, field) => (Array.isArray(value) ? value.map(item => get(item, field)) : get(value, field)),
+  omit: (value, ...fields) => {
+    const strip = (record: any) => {
+      if (!record || typeof record !== 'object') return record
+      const copy = { ...record }
+      fields.forEach(field => delete copy[field])
+      return copy
+    }
+    return Array.isArray(value) ? value.map(strip) : strip(value)
+  },
+  stringify: value => JSON.stringify(value),
+  parseJson: value => (typeof value === 'string' ? JSON.parse(value) : value)
+}
+
+/**
+ * Applies the transformations declared on a CompatibilityRule when data moves across a connection
+ */
+export class EdgeAdapter {
+  private readonly functions: Map<string, TransformationFunction> = new Map(Object.entries(BUILT_IN_FUNCTIONS))
+
+  registerFunction(name: string, fn: TransformationFunction): void {
+    this.functions.set(name, fn)
+  }
+
+  hasFunction(expression: string): boolean {
+    return this.functions.has(this.parse(expression).name)
+  }
+
+  /**
+   * Write the transformed values of `sourceOutput` into `targetInput`
+   */
+  apply(
+    transformations: RuleTransformation[],
+    sourceOutput: any,
+    targetInput: Record<string, any>
+  ): Record<string, any> {
+    for (const transformation of transformations) {
+      const value = transformation.from ? get(sourceOutput, transformation.from) : sourceOutput
+      set(targetInput, transformation.to, this.transform(transformation.function, value))
+    }
+    return targetInput
+  }
+
+  transform(expression: string, value: any): any {
+    const { name, args } = this.parse(expression)
+    const fn = this.functions.get(name)
+
+    if (!fn) {
+      throw new Error(`Unknown transformation function '${name}'`)
+    }
+
+    return fn(value, ...args)
+  }
+
+  private parse(expression: string): { name: string; args: string[] } {
+    const match = expression.trim().match(/^([\w-]+)(?:\((.*)\))?$/)
+    if (!match) {
+      throw new Error(`Invalid transformation expression '${expression}'`)
+    }
+
+    const args = match[2] ? match[2].split(',').map(arg => arg.trim()).filter(Boolean) : []
+    return { name: match[1], args }
+  }
+}
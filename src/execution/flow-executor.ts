@@ -0,0 +1,676 @@
+import { v4 as uuidv4 } from 'uuid'
+import { isPlainObject, pick } from 'lodash'
+import { NodeRegistry } from '../base/node-registry'
+import { INode, NodeResult } from '../interfaces/node.interface'
+import { ExecutionContext } from '../interfaces/execution-context.interface'
+import { CompatibilityRule } from '../interfaces/compatibility.interface'
+import { FlowConnection, FlowDefinition, FlowNodeDefinition } from '../interfaces/flow.interface'
+import { ConsoleLogger, Logger } from '../utils/logger'
+import { CancellationUtils } from '../utils/cancellation'
+import { ExpressionResolver, ExpressionScope } from '../utils/expressions'
+import { CompatibilityValidator } from '../validators/compatibility-validator'
+import { FlowGraph } from './flow-graph'
+import { EdgeAdapter } from './edge-adapter'
+import { ExecutionPolicy, NodeExecutionWrapper } from './node-execution-wrapper'
+import { BatchExecutor } from './batch-executor'
+import { CheckpointStatus, CheckpointStore } from './checkpoint-store'
+
+export type FlowExecutionStatus = 'completed' | 'failed' | 'cancelled'
+
+export type NodeExecutionStatus = 'success' | 'failed' | 'skipped' | 'cancelled' | 'compensated'
+
+/**
+ * Anything carrying a flow definition; FlowExecutionMessage satisfies this shape
+ */
+export interface FlowExecutionRequest {
+  flowId: string
+  executionId?: string
+  flowData: FlowDefinition
+  inputs?: Record<string, any>
+}
+
+export interface FlowExecutionResult {
+  flowId: string
+  executionId: string
+  status: FlowExecutionStatus
+  results: Record<string, NodeResult>
+  statuses: Record<string, NodeExecutionStatus>
+  executionOrder: string[]
+  failedNodeId?: string
+  error?: string
+  /** Nodes whose checkpointed result was reused by resume() instead of running again */
+  restoredNodeIds?: string[]
+  /** Outcome of each compensation run after a failure or cancellation, keyed by node id */
+  compensations?: Record<string, NodeResult>
+  startedAt: string
+  completedAt: string
+  duration: number
+}
+
+export interface FlowRunOptions {
+  /** Aborting it cancels the execution, like calling `cancel(executionId)` */
+  signal?: AbortSignal
+  /**
+   * Set when the flow runs as a sub-flow of another node: node contexts get `<parentNodeId>.<nodeId>`
+   * ids, so logs, compensations and dry-run mocks can tell its nodes apart from the outer flow's
+   */
+  parentNodeId?: string
+}
+
+export interface FlowExecutorOptions {
+  logger?: Logger
+  /** Transformation functions used for connections whose rule declares transformations */
+  adapter?: EdgeAdapter
+  /** Overrides the timeout/retries each node declares in `configuration` */
+  policy?: Partial<ExecutionPolicy>
+  /** Nodes running at the same time across the whole flow (default 4) */
+  concurrency?: number
+  /** Per node type cap, overriding `configuration.concurrency` from the node metadata */
+  typeConcurrency?: Record<string, number>
+  /** Persists every NodeResult so failed or interrupted executions can be resumed */
+  checkpointStore?: CheckpointStore
+}
+
+/**
+ * Runs a flow definition in-process as a DAG.
+ * A node starts as soon as all its upstream nodes succeeded, so independent branches run
+ * concurrently within the global and per-type limits; each connection copies the source node's
+ * output pin (`sourcePort`) into the target node's input pin (`targetPort`), applying
+ * the transformations of the matching compatibility rule when it declares any.
+ * `{{ }}` expressions in node config are resolved just before the node runs; referenced nodes
+ * are treated as upstream nodes.
+ */
+export class FlowExecutor {
+  private readonly logger: Logger
+  private readonly adapter: EdgeAdapter
+  private readonly compatibility: CompatibilityValidator
+  private readonly policy: Partial<ExecutionPolicy>
+  private readonly concurrency: number
+  private readonly typeConcurrency: Record<string, number>
+  private readonly checkpointStore?: CheckpointStore
+  private readonly running: Map<string, AbortController> = new Map()
+
+  constructor(private readonly registry: NodeRegistry, options: FlowExecutorOptions = {}) {
+    this.logger = options.logger || new ConsoleLogger()
+    this.policy = options.policy || {}
+    this.concurrency = Math.max(1, options.concurrency ?? 4)
+    this.typeConcurrency = options.typeConcurrency || {}
+    this.checkpointStore = options.checkpointStore
+    this.adapter = options.adapter || new EdgeAdapter()
+    this.compatibility = new CompatibilityValidator(registry)
+  }
+
+  /**
+   * Cancel a running execution; the current node is signalled and the rest are skipped
+   */
+  cancel(executionId: string): boolean {
+    const controller = this.running.get(executionId)
+    if (!controller) return false
+
+    controller.abort()
+    return true
+  }
+
+  async execute(request: FlowExecutionRequest, options: FlowRunOptions = {}): Promise<FlowExecutionResult> {
+    const executionId = request.executionId || uuidv4()
+
+    // Results left by an earlier run with the same id must not leak into a later resume()
+    if (this.checkpointStore && request.executionId) {
+      await this.checkpointStore.deleteExecution(executionId)
+    }
+
+    return this.start(request, executionId, {}, options)
+  }
+
+  /**
+   * Re-run a checkpointed execution: nodes that succeeded keep their stored result and
+   * only the failed, cancelled, compensated or never-started nodes run again
+   */
+  async resume(executionId: string, options: FlowRunOptions = {}): Promise<FlowExecutionResult> {
+    if (!this.checkpointStore) {
+      throw new Error('Resuming an execution requires a checkpoint store')
+    }
+    if (this.running.has(executionId)) {
+      throw new Error(`Execution '${executionId}' is still running`)
+    }
+
+    const checkpoint = await this.checkpointStore.getExecution(executionId)
+    if (!checkpoint) {
+      throw new Error(`No checkpoint found for execution '${executionId}'`)
+    }
+    if (checkpoint.status === 'completed') {
+      throw new Error(`Execution '${executionId}' already completed`)
+    }
+
+    const restored: Record<string, NodeResult> = {}
+    for (const [nodeId, result] of Object.entries(await this.checkpointStore.getNodeResults(executionId))) {
+      if (result.success && !result.compensated) restored[nodeId] = result
+    }
+
+    this.logger.info(`Resuming execution '${executionId}'`, {
+      flowId: checkpoint.flowId,
+      restoredNodes: Object.keys(restored).length
+    })
+
+    return this.start(
+      { flowId: checkpoint.flowId, executionId, flowData: checkpoint.flowData, inputs: checkpoint.inputs },
+      executionId,
+      restored,
+      options,
+      checkpoint.startedAt
+    )
+  }
+
+  private async start(
+    request: FlowExecutionRequest,
+    executionId: string,
+    restored: Record<string, NodeResult>,
+    options: FlowRunOptions,
+    startedAt: string = new Date().toISOString()
+  ): Promise<FlowExecutionResult> {
+    const graph = this.buildGraph(request.flowData)
+    const order = graph.topologicalOrder()
+
+    const { controller, detach } = CancellationUtils.link(options.signal)
+    this.running.set(executionId, controller)
+
+    try {
+      await this.saveCheckpoint(request, executionId, 'running', startedAt)
+      const result = await this.run(request, executionId, graph, order, controller.signal, restored, options.parentNodeId)
+      await this.saveCheckpoint(request, executionId, result.status, startedAt)
+      return result
+    } finally {
+      detach()
+      this.running.delete(executionId)
+    }
+  }
+
+  private async run(
+    request: FlowExecutionRequest,
+    executionId: string,
+    graph: FlowGraph,
+    order: string[],
+    signal: AbortSignal,
+    restored: Record<string, NodeResult>,
+    parentNodeId?: string
+  ): Promise<FlowExecutionResult> {
+    const startTime = Date.now()
+    const startedAt = new Date(startTime).toISOString()
+    const nodeResults = new Map<string, NodeResult>()
+    const nodeStatuses = new Map<string, NodeExecutionStatus>()
+    const outputs = new Map<string, any>()
+    const compensable: string[] = []
+    const failed: string[] = []
+    let cancelled = false
+
+    // Scheduling state: upstream nodes still to finish, nodes ready to start and running ones
+    const position = new Map(order.map((nodeId, index) => [nodeId, index]))
+    const waitingOn = new Map(
+      order.map(nodeId => [nodeId, new Set(graph.getDependencies(nodeId))])
+    )
+
+    const restoredNodeIds = order.filter(nodeId => graph.getNode(nodeId) && restored[nodeId])
+    for (const nodeId of restoredNodeIds) {
+      nodeResults.set(nodeId, restored[nodeId])
+      nodeStatuses.set(nodeId, 'success')
+      outputs.set(nodeId, restored[nodeId].data)
+      if (restored[nodeId].rollbackData !== undefined) compensable.push(nodeId)
+      for (const dependent of graph.getDependents(nodeId)) {
+        waitingOn.get(dependent)!.delete(nodeId)
+      }
+    }
+
+    const ready = order.filter(nodeId => !restored[nodeId] && waitingOn.get(nodeId)!.size === 0)
+    const inFlight = new Map<string, Promise<void>>()
+    const runningPerType = new Map<string, number>()
+
+    this.logger.info(`Executing flow '${request.flowData.name}'`, {
+      flowId: request.flowId,
+      executionId,
+      totalNodes: order.length
+    })
+
+    // Let downstream nodes start once their upstream nodes are done
+    const release = (nodeId: string): void => {
+      for (const dependent of graph.getDependents(nodeId)) {
+        const waiting = waitingOn.get(dependent)!
+        if (waiting.delete(nodeId) && waiting.size === 0) {
+          this.enqueue(ready, dependent, position)
+        }
+      }
+    }
+
+    const launch = (nodeId: string): void => {
+      const node = graph.getNode(nodeId)!
+      const context: ExecutionContext = {
+        flowId: request.flowId,
+        executionId,
+        nodeId: this.contextNodeId(nodeId, parentNodeId),
+        logger: this.logger,
+        config: node.config,
+        signal,
+        registry: this.registry
+      }
+
+      const scope = this.createScope(request, executionId, nodeId, startedAt, outputs)
+
+      runningPerType.set(node.type, (runningPerType.get(node.type) || 0) + 1)
+
+      const execution = this.runNode(node, graph, outputs, scope, context).then(async result => {
+        await this.saveNodeCheckpoint(executionId, nodeId, result)
+
+        inFlight.delete(nodeId)
+        runningPerType.set(node.type, runningPerType.get(node.type)! - 1)
+        nodeResults.set(nodeId, result)
+
+        if (result.success) {
+          nodeStatuses.set(nodeId, 'success')
+          outputs.set(nodeId, result.data)
+          if (result.rollbackData !== undefined) compensable.push(nodeId)
+          release(nodeId)
+        } else if (result.cancelled) {
+          nodeStatuses.set(nodeId, 'cancelled')
+          cancelled = true
+          this.logger.warn(`Node '${nodeId}' (${node.type}) cancelled`, { executionId })
+        } else {
+          nodeStatuses.set(nodeId, 'failed')
+          failed.push(nodeId)
+          // Batches that completed before the failing one are undone as well
+          if (result.rollbackData !== undefined) compensable.push(nodeId)
+          this.logger.error(`Node '${nodeId}' (${node.type}) failed`, { executionId, error: result.error })
+        }
+      })
+
+      inFlight.set(nodeId, execution)
+    }
+
+    while (true) {
+      cancelled = cancelled || signal.aborted
+
+      // After a failure or cancellation nothing new starts; running nodes are allowed to finish
+      if (failed.length === 0 && !cancelled) {
+        // Branches that receive nothing (e.g. an empty router output) are skipped, and so is what follows them
+        let unreached: string | undefined
+        while ((unreached = ready.find(nodeId => this.receivesNothing(graph, nodeId, outputs)))) {
+          ready.splice(ready.indexOf(unreached), 1)
+          nodeStatuses.set(unreached, 'skipped')
+          this.logger.debug(`Node '${unreached}' skipped: no upstream data`, { executionId })
+          release(unreached)
+        }
+
+        for (let index = 0; index < ready.length && inFlight.size < this.concurrency;) {
+          const nodeId = ready[index]
+          const node = graph.getNode(nodeId)!
+
+          if ((runningPerType.get(node.type) || 0) >= this.getTypeConcurrency(node)) {
+            index++
+            continue
+          }
+
+          ready.splice(index, 1)
+          launch(nodeId)
+        }
+      }
+
+      if (inFlight.size === 0) break
+      await Promise.race(inFlight.values())
+    }
+
+    // Report in topological order whatever order the nodes finished in
+    const results: Record<string, NodeResult> = {}
+    const statuses: Record<string, NodeExecutionStatus> = {}
+    for (const nodeId of order) {
+      const result = nodeResults.get(nodeId)
+      if (result) results[nodeId] = result
+      statuses[nodeId] = nodeStatuses.get(nodeId) || 'skipped'
+    }
+
+    const failedNodeId = order.find(nodeId => failed.includes(nodeId))
+
+    const compensations = (failedNodeId || cancelled) && compensable.length > 0
+      ? await this.compensate(request, executionId, startedAt, graph, compensable, outputs, results, statuses, parentNodeId)
+      : undefined
+
+    const completedAt = Date.now()
+
+    return {
+      flowId: request.flowId,
+      executionId,
+      status: failedNodeId ? 'failed' : cancelled ? 'cancelled' : 'completed',
+      results,
+      statuses,
+      executionOrder: order,
+      failedNodeId,
+      error: failedNodeId ? results[failedNodeId].error : undefined,
+      restoredNodeIds: restoredNodeIds.length > 0 ? restoredNodeIds : undefined,
+      compensations,
+      startedAt,
+      completedAt: new Date(completedAt).toISOString(),
+      duration: completedAt - startTime
+    }
+  }
+
+  /**
+   * Checkpoint failures are logged rather than failing the flow; they only affect resume()
+   */
+  private async saveCheckpoint(
+    request: FlowExecutionRequest,
+    executionId: string,
+    status: CheckpointStatus,
+    startedAt: string
+  ): Promise<void> {
+    if (!this.checkpointStore) return
+
+    try {
+      await this.checkpointStore.saveExecution({
+        executionId,
+        flowId: request.flowId,
+        flowData: request.flowData,
+        inputs: request.inputs,
+        status,
+        startedAt,
+        updatedAt: new Date().toISOString()
+      })
+    } catch (error) {
+      this.logger.error(`Failed to checkpoint execution '${executionId}'`, { error })
+    }
+  }
+
+  private async saveNodeCheckpoint(executionId: string, nodeId: string, result: NodeResult): Promise<void> {
+    if (!this.checkpointStore) return
+
+    try {
+      await this.checkpointStore.saveNodeResult(executionId, nodeId, result)
+    } catch (error) {
+      this.logger.error(`Failed to checkpoint node '${nodeId}'`, { executionId, error })
+    }
+  }
+
+  /**
+   * True when the node has incoming connections and none of them carries a value,
+   * or when its expressions refer to a node that was skipped
+   */
+  private receivesNothing(graph: FlowGraph, nodeId: string, outputs: Map<string, any>): boolean {
+    if (graph.getReferences(nodeId).some(referencedId => !outputs.has(referencedId))) {
+      return true
+    }
+
+    const incoming = graph.getIncoming(nodeId)
+    return incoming.length > 0 && incoming.every(connection => {
+      const upstream = outputs.get(connection.sourceId)
+      return (connection.sourcePort ? upstream?.[connection.sourcePort] : upstream) === undefined
+    })
+  }
+
+  /**
+   * Insert keeping the ready queue in topological order, so start order is deterministic
+   */
+  private enqueue(ready: string[], nodeId: string, position: Map<string, number>): void {
+    const index = ready.findIndex(other => position.get(other)! > position.get(nodeId)!)
+    ready.splice(index === -1 ? ready.length : index, 0, nodeId)
+  }
+
+  private contextNodeId(nodeId: string, parentNodeId?: string): string {
+    return parentNodeId ? `${parentNodeId}.${nodeId}` : nodeId
+  }
+
+  private getTypeConcurrency(node: FlowNodeDefinition): number {
+    const limit = this.typeConcurrency[node.type] ??
+      this.registry.getNodeMetadata(node.type, node.version)?.configuration?.concurrency
+    return limit && limit > 0 ? limit : Infinity
+  }
+
+  private createScope(
+    request: FlowExecutionRequest,
+    executionId: string,
+    nodeId: string,
+    startedAt: string,
+    outputs: Map<string, any>
+  ): ExpressionScope {
+    return {
+      nodes: Object.fromEntries(outputs),
+      inputs: request.inputs || {},
+      execution: { flowId: request.flowId, flowName: request.flowData.name, executionId, nodeId, startedAt }
+    }
+  }
+
+  /**
+   * Saga-style rollback: undo completed nodes in reverse execution order.
+   * Each node gets the config and input it ran with, rebuilt from the upstream outputs, in its context.
+   * A failing compensation is reported and logged but does not stop the others.
+   */
+  private async compensate(
+    request: FlowExecutionRequest,
+    executionId: string,
+    startedAt: string,
+    graph: FlowGraph,
+    nodeIds: string[],
+    outputs: Map<string, any>,
+    results: Record<string, NodeResult>,
+    statuses: Record<string, NodeExecutionStatus>,
+    parentNodeId?: string
+  ): Promise<Record<string, NodeResult>> {
+    const compensations: Record<string, NodeResult> = {}
+
+    for (const nodeId of [...nodeIds].reverse()) {
+      const node = graph.getNode(nodeId)!
+
+      let result: NodeResult
+      try {
+        const config = this.resolveConfig(node, graph, this.createScope(request, executionId, nodeId, startedAt, outputs))
+        const context: ExecutionContext = {
+          flowId: request.flowId,
+          executionId,
+          nodeId: this.contextNodeId(nodeId, parentNodeId),
+          logger: this.logger,
+          config,
+          registry: this.registry,
+          input: this.buildInput(node, config, graph, outputs)
+        }
+
+        const instance = this.registry.create(node.type, config, node.version)
+        result = instance.compensate
+          ? await NodeExecutionWrapper.run(
+              this.asCompensation(instance),
+              results[nodeId].rollbackData,
+              context,
+              NodeExecutionWrapper.policyFromMetadata(
+                this.registry.getNodeMetadata(node.type, node.version)?.configuration,
+                this.policy
+              )
+            )
+          : { success: false, error: `Node type '${node.type}' returned rollback data but does not implement compensate()` }
+      } catch (error) {
+        result = { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+
+      compensations[nodeId] = result
+      if (result.success) {
+        if (statuses[nodeId] === 'success') statuses[nodeId] = 'compensated'
+        // Its effects are gone, so a resumed execution must not reuse the result
+        await this.saveNodeCheckpoint(executionId, nodeId, { ...results[nodeId], compensated: true })
+        this.logger.info(`Node '${nodeId}' (${node.type}) compensated`, { executionId })
+      } else {
+        this.logger.error(`Compensation of node '${nodeId}' (${node.type}) failed`, {
+          executionId,
+          error: result.error
+        })
+      }
+    }
+
+    return compensations
+  }
+
+  /**
+   * Present compensate() as an executable node so it gets the same timeout and retry policy
+   */
+  private asCompensation(instance: INode): INode {
+    return {
+      type: instance.type,
+      version: instance.version,
+      category: instance.category,
+      execute: async (rollbackData, context) => {
+        if (!BatchExecutor.isBatchRollback(rollbackData)) {
+          return instance.compensate!(rollbackData, context)
+        }
+
+        // Undo batches in reverse order too, carrying on past a failing one
+        const startTime = Date.now()
+        const errors: string[] = []
+        let recordsProcessed = 0
+        for (const batch of [...rollbackData.batches].reverse()) {
+          const result = await instance.compensate!(batch, context)
+          if (!result.success) errors.push(result.error || 'Unknown error')
+          recordsProcessed += result.metrics?.recordsProcessed || 0
+        }
+        return {
+          success: errors.length === 0,
+          error: errors.length > 0 ? errors.join('; ') : undefined,
+          retryable: false,
+          metrics: { executionTime: Date.now() - startTime, recordsProcessed }
+        }
+      },
+      validate: () => true,
+      getConfig: () => instance.getConfig()
+    }
+  }
+
+  private buildGraph(definition: FlowDefinition): FlowGraph {
+    const graph = new FlowGraph(definition, {
+      deferredInputs: node => this.registry.getNodeMetadata(node.type, node.version)?.configuration?.deferredInputs || []
+    })
+
+    if (graph.duplicateNodeIds.length > 0) {
+      throw new Error(`Duplicate node ids in flow: ${graph.duplicateNodeIds.join(', ')}`)
+    }
+
+    if (graph.danglingConnections.length > 0) {
+      const [connection] = graph.danglingConnections
+      throw new Error(
+        `Connection ${connection.sourceId} → ${connection.targetId} references a node that is not in the flow`
+      )
+    }
+
+    if (graph.danglingReferences.length > 0) {
+      const [reference] = graph.danglingReferences
+      throw new Error(`Node '${reference.nodeId}' refers to node '${reference.referencedId}', which is not in the flow`)
+    }
+
+    return graph
+  }
+
+  /**
+   * Metadata defaults are overridden by node config (with its expressions resolved), which wired
+   * pins override in turn. A connection without ports passes the whole upstream output and merges it into the input.
+   */
+  private buildInput(
+    node: FlowNodeDefinition,
+    config: Record<string, any>,
+    graph: FlowGraph,
+    outputs: Map<string, any>
+  ): Record<string, any> {
+    const input: Record<string, any> = { ...this.registry.getInputDefaults(node.type, node.version), ...config }
+
+    for (const connection of graph.getIncoming(node.id)) {
+      const upstream = outputs.get(connection.sourceId)
+      const transformations = this.getTransformations(graph, connection)
+
+      if (transformations.length > 0) {
+        this.adapter.apply(transformations, upstream, input)
+        continue
+      }
+
+      const value = connection.sourcePort ? upstream?.[connection.sourcePort] : upstream
+
+      if (connection.targetPort) {
+        input[connection.targetPort] = value
+      } else if (isPlainObject(value)) {
+        Object.assign(input, value)
+      }
+    }
+
+    return input
+  }
+
+  /**
+   * Only the node's own config is resolved, except its deferred inputs; data arriving over
+   * connections is never evaluated
+   */
+  private resolveConfig(node: FlowNodeDefinition, graph: FlowGraph, scope: ExpressionScope): Record<string, any> {
+    return {
+      ...ExpressionResolver.resolve(graph.getExpressionConfig(node.id), scope),
+      ...pick(node.config || {}, graph.getDeferredInputs(node.id))
+    }
+  }
+
+  private getTransformations(
+    graph: FlowGraph,
+    connection: FlowConnection
+  ): NonNullable<CompatibilityRule['transformations']> {
+    if (!connection.sourcePort || !connection.targetPort) return []
+
+    const source = graph.getNode(connection.sourceId)!
+    const target = graph.getNode(connection.targetId)!
+    const { rule } = this.compatibility.checkConnection(
+      { type: source.type, version: source.version, pin: connection.sourcePort, config: source.config },
+      { type: target.type, version: target.version, pin: connection.targetPort, config: target.config }
+    )
+    return rule?.transformations || []
+  }
+
+  private async runNode(
+    node: FlowNodeDefinition,
+    graph: FlowGraph,
+    outputs: Map<string, any>,
+    scope: ExpressionScope,
+    nodeContext: ExecutionContext
+  ): Promise<NodeResult> {
+    const startTime = Date.now()
+
+    try {
+      const config = this.resolveConfig(node, graph, scope)
+      const context: ExecutionContext = { ...nodeContext, config }
+      const input = this.buildInput(node, config, graph, outputs)
+      const instance = this.registry.create(node.type, config, node.version)
+
+      const registration = this.registry.resolve(node.type, node.version)
+      if (registration?.deprecation) {
+        this.logger.warn(`Node '${node.id}' uses deprecated ${node.type}@${registration.version}`, {
+          executionId: context.executionId,
+          ...registration.deprecation
+        })
+      }
+
+      const validation = instance.validateInput
+        ? instance.validateInput(input)
+        : { valid: instance.validate(input), errors: [] }
+
+      if (!validation.valid) {
+        const details = validation.errors.map(error => error.message).join('; ')
+        return {
+          success: false,
+          error: `Invalid input for node '${node.id}' (${node.type})${details ? `: ${details}` : ''}`,
+          duration: Date.now() - startTime
+        }
+      }
+
+      const configuration = this.registry.getNodeMetadata(node.type, node.version)?.configuration
+      const policy = NodeExecutionWrapper.policyFromMetadata(configuration, this.policy)
+      const batching = BatchExecutor.optionsFromMetadata(configuration)
+
+      // Each batch gets its own instance since nodes may keep per-execution state (e.g. connections)
+      const result = BatchExecutor.shouldBatch(input, batching)
+        ? await BatchExecutor.run(input, batching, batchInput =>
+            NodeExecutionWrapper.run(this.registry.create(node.type, config, node.version), batchInput, context, policy)
+          )
+        : await NodeExecutionWrapper.run(instance, input, context, policy)
+      return { ...result, duration: result.duration ?? Date.now() - startTime }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration: Date.now() - startTime
+      }
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import { omit } from 'lodash'
+import { FlowConnection, FlowDefinition, FlowNodeDefinition } from '../interfaces/flow.interface'
+import { ExpressionResolver } from '../utils/expressions'
+
+export interface DanglingReference {
+  nodeId: string
+  referencedId: string
+}
+
+export interface FlowGraphOptions {
+  /** Config keys whose expressions the node resolves itself, usually `configuration.deferredInputs` */
+  deferredInputs?: (node: FlowNodeDefinition) => string[]
+}
+
+/**
+ * Adjacency view over a flow definition.
+ * A node depends on the sources of its connections and on the nodes its config expressions
+ * refer to (`{{ nodes.<id>... }}`); ordering, cycles and descendants follow both.
+ * Structural problems are collected instead of thrown so validators can report them.
+ */
+export class FlowGraph {
+  private readonly nodes: Map<string, FlowNodeDefinition> = new Map()
+  private readonly incoming: Map<string, FlowConnection[]> = new Map()
+  private readonly outgoing: Map<string, FlowConnection[]> = new Map()
+  private readonly references: Map<string, string[]> = new Map()
+  private readonly referencedBy: Map<string, string[]> = new Map()
+  private readonly deferredInputs: Map<string, string[]> = new Map()
+
+  readonly duplicateNodeIds: string[] = []
+  readonly danglingConnections: FlowConnection[] = []
+  readonly danglingReferences: DanglingReference[] = []
+
+  constructor(definition: FlowDefinition, options: FlowGraphOptions = {}) {
+    for (const node of definition.nodes) {
+      if (this.nodes.has(node.id)) {
+        this.duplicateNodeIds.push(node.id)
+        continue
+      }
+      this.nodes.set(node.id, node)
+      this.incoming.set(node.id, [])
+      this.outgoing.set(node.id, [])
+    }
+
+    for (const connection of definition.connections) {
+      if (!this.nodes.has(connection.sourceId) || !this.nodes.has(connection.targetId)) {
+        this.danglingConnections.push(connection)
+        continue
+      }
+      this.outgoing.get(connection.sourceId)!.push(connection)
+      this.incoming.get(connection.targetId)!.push(connection)
+    }
+
+    for (const node of this.nodes.values()) {
+      this.deferredInputs.set(node.id, options.deferredInputs?.(node) || [])
+
+      const references: string[] = []
+      for (const referencedId of ExpressionResolver.references(this.getExpressionConfig(node.id))) {
+        if (!this.nodes.has(referencedId)) {
+          this.danglingReferences.push({ nodeId: node.id, referencedId })
+          continue
+        }
+        references.push(referencedId)
+        this.referencedBy.set(referencedId, [...(this.referencedBy.get(referencedId) || []), node.id])
+      }
+      this.references.set(node.id, references)
+    }
+  }
+
+  getNode(nodeId: string): FlowNodeDefinition | undefined {
+    return this.nodes.get(nodeId)
+  }
+
+  getNodes(): FlowNodeDefinition[] {
+    return Array.from(this.nodes.values())
+  }
+
+  getIncoming(nodeId: string): FlowConnection[] {
+    return this.incoming.get(nodeId) || []
+  }
+
+  getOutgoing(nodeId: string): FlowConnection[] {
+    return this.outgoing.get(nodeId) || []
+  }
+
+  /**
+   * Nodes referenced by the node's config expressions
+   */
+  getReferences(nodeId: string): string[] {
+    return this.references.get(nodeId) || []
+  }
+
+  /**
+   * Config keys of the node left for the node itself to resolve, e.g. a for-each sub-flow
+   */
+  getDeferredInputs(nodeId: string): string[] {
+    return this.deferredInputs.get(nodeId) || []
+  }
+
+  /**
+   * The node's config without its deferred inputs: the part the executor resolves and validators check
+   */
+  getExpressionConfig(nodeId: string): Record<string, any> {
+    return omit(this.nodes.get(nodeId)?.config || {}, this.getDeferredInputs(nodeId))
+  }
+
+  /**
+   * Nodes that must finish before this one: connection sources and referenced nodes
+   */
+  getDependencies(nodeId: string): string[] {
+    const sources = this.getIncoming(nodeId).map(connection => connection.sourceId)
+    return Array.from(new Set([...sources, ...this.getReferences(nodeId)]))
+  }
+
+  /**
+   * Nodes waiting on this one: connection targets and nodes referring to it
+   */
+  getDependents(nodeId: string): string[] {
+    const targets = this.getOutgoing(nodeId).map(connection => connection.targetId)
+    return Array.from(new Set([...targets, ...(this.referencedBy.get(nodeId) || [])]))
+  }
+
+  /**
+   * Return the ids of every node reachable downstream from the given node
+   */
+  getDescendants(nodeId: string): string[] {
+    const visited = new Set<string>()
+    const stack = this.getDependents(nodeId)
+
+    while (stack.length > 0) {
+      const current = stack.pop()!
+      if (visited.has(current)) continue
+      visited.add(current)
+      stack.push(...this.getDependents(current))
+    }
+
+    return Array.from(visited)
+  }
+
+  /**
+   * Find a cycle and return the node ids along it, or null when the graph is acyclic
+   */
+  findCycle(): string[] | null {
+    const state = new Map<string, 'visiting' | 'done'>()
+    const path: string[] = []
+
+    const visit = (nodeId: string): string[] | null => {
+      state.set(nodeId, 'visiting')
+      path.push(nodeId)
+
+      for (const next of this.getDependents(nodeId)) {
+        if (state.get(next) === 'visiting') {
+          return [...path.slice(path.indexOf(next)), next]
+        }
+        if (!state.has(next)) {
+          const cycle = visit(next)
+          if (cycle) return cycle
+        }
+      }
+
+      path.pop()
+      state.set(nodeId, 'done')
+      return null
+    }
+
+    for (const nodeId of this.nodes.keys()) {
+      if (!state.has(nodeId)) {
+        const cycle = visit(nodeId)
+        if (cycle) return cycle
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Kahn's algorithm; ties are broken by declaration order so runs are deterministic
+   */
+  topologicalOrder(): string[] {
+    const inDegree = new Map<string, number>()
+    for (const nodeId of this.nodes.keys()) {
+      inDegree.set(nodeId, this.getDependencies(nodeId).length)
+    }
+
+    const ready = Array.from(this.nodes.keys()).filter(id => inDegree.get(id) === 0)
+    const order: string[] = []
+
+    while (ready.length > 0) {
+      const nodeId = ready.shift()!
+      order.push(nodeId)
+
+      for (const dependent of this.getDependents(nodeId)) {
+        const remaining = inDegree.get(dependent)! - 1
+        inDegree.set(dependent, remaining)
+        if (remaining === 0) {
+          ready.push(dependent)
+        }
+      }
+    }
+
+    if (order.length !== this.nodes.size) {
+      const cycle = this.findCycle()
+      throw new Error(`Flow contains a cycle: ${(cycle || []).join(' → ')}`)
+    }
+
+    return order
+  }
+}
@@ -0,0 +1,266 @@
+import { INode, NodeResult } from '../interfaces/node.interface'
+import { NodeConfigurationMetadata } from '../base/base-node'
+import { CancellationUtils } from '../utils/cancellation'
+
+export interface BackoffOptions {
+  initialDelay: number
+  multiplier: number
+  maxDelay: number
+  /** Fraction of the delay randomised in both directions (0 disables jitter) */
+  jitter: number
+}
+
+export interface ExecutionPolicy {
+  /** Per-attempt timeout in milliseconds; 0 or undefined disables it */
+  timeout?: number
+  /** Attempts after the first one */
+  retries: number
+  backoff: BackoffOptions
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  initialDelay: 1000,
+  multiplier: 2,
+  maxDelay: 30000,
+  jitter: 0.2
+}
+
+/** Failures that happen before the operation is applied, so retrying cannot duplicate it */
+const RETRYABLE_CODES = new Set([
+  'ECONNREFUSED',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  // PostgreSQL: serialization failure, deadlock and too many connections abort the statement
+  '40001',
+  '40P01',
+  '53300'
+])
+
+const RETRYABLE_MESSAGES = [
+  /ECONNREFUSED|EAI_AGAIN|EHOSTUNREACH|ENETUNREACH/,
+  /server selection/i,
+  /too many (connections|clients)/i,
+  /deadlock/i,
+  /temporarily unavailable/i
+]
+
+/** Timeouts while connecting: nothing was sent yet, so they are safe to retry */
+const CONNECT_TIMEOUT_MESSAGES = [
+  /connection timeout/i,
+  /timeout exceeded when trying to connect/i
+]
+
+const TIMEOUT_MESSAGES = [
+  /timed? ?out/i,
+  /ETIMEDOUT/
+]
+
+/**
+ * Connections lost while the operation may already have been sent, e.g. pg's
+ * "Connection terminated unexpectedly" after an INSERT reached the server
+ */
+const CONNECTION_LOST_CODES = new Set([
+  'ECONNRESET',
+  'EPIPE',
+  // PostgreSQL: admin shutdown
+  '57P01'
+])
+
+const CONNECTION_LOST_MESSAGES = [
+  /ECONNRESET|EPIPE/,
+  /socket hang up/i,
+  /connection (terminated|closed|reset)/i
+]
+
+export interface RetryOptions {
+  /** Whether the operation can run again after an ambiguous failure without duplicating its effects */
+  idempotent?: boolean
+}
+
+export class RetryableErrorClassifier {
+  /**
+   * Only transient infrastructure failures are retried; anything unrecognised is treated as permanent.
+   * Timeouts and connections lost mid-operation leave unknown whether the operation was applied,
+   * so they are only retried when it is idempotent.
+   */
+  static isRetryable(error: unknown, options: RetryOptions = {}): boolean {
+    if (!error) return false
+
+    const name = (error as any)?.name
+    if (typeof name === 'string' && /^MongoServerSelection/.test(name)) return true
+
+    const message = error instanceof Error ? error.message : String(error)
+    if (CONNECT_TIMEOUT_MESSAGES.some(pattern => pattern.test(message))) return true
+
+    if (RetryableErrorClassifier.isTimeout(error) || RetryableErrorClassifier.isConnectionLost(error)) {
+      return !!options.idempotent
+    }
+
+    const code = (error as any)?.code
+    if (code !== undefined && RETRYABLE_CODES.has(String(code))) return true
+
+    return RETRYABLE_MESSAGES.some(pattern => pattern.test(message))
+  }
+
+  /**
+   * Timeouts after the operation may have reached the server; connection timeouts are not included
+   */
+  static isTimeout(error: unknown): boolean {
+    if (!error) return false
+
+    const name = (error as any)?.name
+    if (typeof name === 'string' && /^MongoNetworkTimeout/.test(name)) return true
+    if ((error as any)?.code === 'ETIMEDOUT') return true
+
+    const message = error instanceof Error ? error.message : String(error)
+    return TIMEOUT_MESSAGES.some(pattern => pattern.test(message)) &&
+      !CONNECT_TIMEOUT_MESSAGES.some(pattern => pattern.test(message))
+  }
+
+  /**
+   * Connection failures after the operation may have reached the server, MongoDB network errors included
+   */
+  static isConnectionLost(error: unknown): boolean {
+    if (!error) return false
+
+    const name = (error as any)?.name
+    if (typeof name === 'string' && /^MongoNetwork/.test(name)) return true
+
+    const code = (error as any)?.code
+    if (code !== undefined && CONNECTION_LOST_CODES.has(String(code))) return true
+
+    const message = error instanceof Error ? error.message : String(error)
+    return CONNECTION_LOST_MESSAGES.some(pattern => pattern.test(message)) &&
+      !CONNECT_TIMEOUT_MESSAGES.some(pattern => pattern.test(message))
+  }
+}
+
+/**
+ * Common wrapper around INode.execute() enforcing timeout and retry with exponential backoff.
+ * Each attempt gets its own signal, aborted on timeout or when `context.signal` aborts.
+ */
+export class NodeExecutionWrapper {
+  static policyFromMetadata(
+    configuration?: NodeConfigurationMetadata,
+    overrides: Partial<ExecutionPolicy> = {}
+  ): ExecutionPolicy {
+    return {
+      timeout: overrides.timeout ?? configuration?.timeout,
+      retries: overrides.retries ?? configuration?.retries ?? 0,
+      backoff: { ...DEFAULT_BACKOFF, ...overrides.backoff }
+    }
+  }
+
+  static async run<TInput, TOutput>(
+    node: INode<TInput, TOutput>,
+    input: TInput,
+    context: any,
+    policy: ExecutionPolicy
+  ): Promise<NodeResult<TOutput>> {
+    const startTime = Date.now()
+    const signal: AbortSignal | undefined = context?.signal
+    const retryOptions: RetryOptions = { idempotent: NodeExecutionWrapper.isIdempotent(node, input) }
+    let attempts = 0
+    let result: NodeResult<TOutput>
+
+    while (true) {
+      attempts++
+      result = await NodeExecutionWrapper.attempt(node, input, context, policy.timeout, retryOptions)
+
+      if (!result.success && CancellationUtils.isCancelled(signal)) {
+        result = { ...CancellationUtils.cancelledResult(startTime), metrics: result.metrics }
+        break
+      }
+
+      const retryable = result.retryable ?? RetryableErrorClassifier.isRetryable(result.error, retryOptions)
+      if (result.success || result.cancelled || attempts > policy.retries || !retryable) break
+
+      const delay = NodeExecutionWrapper.computeDelay(attempts, policy.backoff)
+      context?.logger?.warn?.(`Node ${node.type} failed, retrying in ${delay}ms`, {
+        nodeId: context?.nodeId,
+        attempt: attempts,
+        error: result.error
+      })
+      await CancellationUtils.sleep(delay, signal)
+      if (CancellationUtils.isCancelled(signal)) {
+        result = CancellationUtils.cancelledResult(startTime)
+        break
+      }
+    }
+
+    return {
+      ...result,
+      metrics: {
+        executionTime: result.metrics?.executionTime ?? Date.now() - startTime,
+        recordsProcessed: result.metrics?.recordsProcessed ?? 0,
+        attempts
+      }
+    }
+  }
+
+  /**
+   * Reject once `timeout` elapses; the timer is always cleared when the promise settles
+   */
+  static async withTimeout<T>(promise: Promise<T>, timeout: number | undefined, message?: string): Promise<T> {
+    if (!timeout || timeout <= 0) return promise
+
+    let timer: NodeJS.Timeout | undefined
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(message || `Operation timed out after ${timeout}ms`)), timeout)
+    })
+
+    try {
+      return await Promise.race([promise, timeoutPromise])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  static computeDelay(attempt: number, backoff: BackoffOptions): number {
+    const base = Math.min(backoff.maxDelay, backoff.initialDelay * Math.pow(backoff.multiplier, attempt - 1))
+    const jitter = base * backoff.jitter * (Math.random() * 2 - 1)
+    return Math.max(0, Math.round(base + jitter))
+  }
+
+  /**
+   * Nodes opt in per input through isIdempotent(); a throwing check counts as not idempotent
+   */
+  static isIdempotent<TInput>(node: INode<TInput, any>, input: TInput): boolean {
+    try {
+      return node.isIdempotent?.(input) ?? false
+    } catch {
+      return false
+    }
+  }
+
+  private static async attempt<TInput, TOutput>(
+    node: INode<TInput, TOutput>,
+    input: TInput,
+    context: any,
+    timeout: number | undefined,
+    retryOptions: RetryOptions
+  ): Promise<NodeResult<TOutput>> {
+    const { controller, detach } = CancellationUtils.link(context?.signal)
+    const attemptContext = { ...context, signal: controller.signal }
+
+    try {
+      const execution = NodeExecutionWrapper.withTimeout(
+        node.execute(input, attemptContext),
+        timeout,
+        `Node ${node.type} timed out after ${timeout}ms`
+      )
+      return await CancellationUtils.race(execution, context?.signal)
+    } catch (error) {
+      // Ask a node that is still running after a timeout to stop
+      controller.abort()
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        retryable: RetryableErrorClassifier.isRetryable(error, retryOptions)
+      }
+    } finally {
+      detach()
+    }
+  }
+}
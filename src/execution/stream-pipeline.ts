@@ -0,0 +1,70 @@
+import { INode, NodeResult } from '../interfaces/node.interface'
+import { CancellationUtils } from '../utils/cancellation'
+
+export interface StreamStage {
+  node: INode
+  /** Node input without the records, which come from the previous stage */
+  input: any
+}
+
+export interface StreamPipelineOutput {
+  /** Records that came out of the last stage */
+  recordsProcessed: number
+}
+
+/**
+ * Chains the executeStream() of several nodes. Records are pulled through the stages one at a time,
+ * so a slow sink applies backpressure all the way to the source and memory stays bounded.
+ */
+export class StreamPipeline {
+  static compose(stages: StreamStage[], context?: any): AsyncIterable<any> {
+    if (stages.length === 0) {
+      throw new Error('A stream pipeline needs at least one stage')
+    }
+
+    let records: AsyncIterable<any> | undefined
+    for (const { node, input } of stages) {
+      if (!node.executeStream) {
+        throw new Error(`Node type '${node.type}' does not support streaming`)
+      }
+      records = node.executeStream(input, records, context)
+    }
+
+    return records!
+  }
+
+  /**
+   * Drain the pipeline without keeping the records; `onRecord` sees every record of the last stage
+   */
+  static async run(
+    stages: StreamStage[],
+    context?: any,
+    onRecord?: (record: any) => void | Promise<void>
+  ): Promise<NodeResult<StreamPipelineOutput>> {
+    const startTime = Date.now()
+    let recordsProcessed = 0
+
+    try {
+      for await (const record of StreamPipeline.compose(stages, context)) {
+        recordsProcessed++
+        if (onRecord) await onRecord(record)
+      }
+
+      return {
+        success: true,
+        data: { recordsProcessed },
+        metrics: { executionTime: Date.now() - startTime, recordsProcessed }
+      }
+    } catch (error) {
+      if (CancellationUtils.isCancelled(context?.signal)) {
+        return CancellationUtils.cancelledResult(startTime, recordsProcessed)
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        metrics: { executionTime: Date.now() - startTime, recordsProcessed }
+      }
+    }
+  }
+}
@@ -3,16 +3,39 @@ export * from './interfaces/node.interface'
 export * from './interfaces/execution-context.interface'
 export * from './interfaces/compatibility.interface'
 export * from './interfaces/validation.interface'
+export * from './interfaces/flow.interface'
 
 export * from './base/base-node'
 export * from './base/node-registry'
+export * from './base/plugin-loader'
+export * from './base/node-catalog'
+export * from './base/node-search'
 
 export * from './validators/compatibility-validator'
+export * from './validators/flow-validator'
+export * from './validators/schema-compatibility'
+
+export * from './execution/flow-graph'
+export * from './execution/flow-executor'
+export * from './execution/edge-adapter'
+export * from './execution/node-execution-wrapper'
+export * from './execution/stream-pipeline'
+export * from './execution/batch-executor'
+export * from './execution/checkpoint-store'
+export * from './execution/dry-run'
 
 export * from './nodes'
 
 export * from './utils/logger'
 export * from './utils/validation'
+export * from './utils/conditions'
+export * from './utils/input-schema'
+export * from './utils/cancellation'
+export * from './utils/stream'
+export * from './utils/expressions'
+export * from './utils/semver'
+export * from './utils/json-schema'
+export * from './utils/record-keys'
 
 // Messaging module for microservices communication
 export * from './messaging'
\ No newline at end of file
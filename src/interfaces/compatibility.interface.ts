@@ -1,3 +1,6 @@
+/** Output pin name standing for pins created at runtime, e.g. one per router case */
+export const WILDCARD_PIN = '*'
+
 export type CompatibilityLevel = 'full' | 'partial' | 'conditional' | 'none'
 
 export interface CompatibilityRule {
@@ -5,11 +8,20 @@ export interface CompatibilityRule {
   outputPin: string
   targetInputPin: string
   compatibility: CompatibilityLevel
+  /**
+   * Evaluated against node configuration at validation time: `field` is a path prefixed with
+   * `source.` or `target.`; unprefixed paths refer to the source node's configuration
+   */
   conditions?: Array<{
     field: string
     operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'contains'
     value: any
   }>
+  /**
+   * Applied when data crosses the connection: `from` is a path in the source output,
+   * `to` a path in the target input and `function` a name registered in EdgeAdapter
+   * (optionally with arguments, e.g. `pluck(id)`)
+   */
   transformations?: Array<{
     from: string
     to: string
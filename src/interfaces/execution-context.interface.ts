@@ -1,7 +1,18 @@
+import { NodeRegistry } from '../base/node-registry'
+
 export interface ExecutionContext {
   flowId: string
   executionId: string
   nodeId: string
   logger: any
   config: Record<string, any>
+  /** Aborted when the execution is cancelled or the attempt times out; nodes should stop promptly */
+  signal?: AbortSignal
+  /** Registry the flow runs with, for nodes that execute other nodes (e.g. for-each) */
+  registry?: NodeRegistry
+  /**
+   * Only set for compensate(): the input the node ran with, rebuilt from the flow, so rollback data
+   * does not have to carry secrets such as connection strings
+   */
+  input?: Record<string, any>
 }
\ No newline at end of file
@@ -0,0 +1,27 @@
+/**
+ * Flow definition interfaces
+ * Structurally identical to FlowExecutionMessage.flowData so messages can be executed directly
+ */
+
+export interface FlowNodeDefinition {
+  id: string
+  type: string
+  /** Semver range pinning the node version, e.g. `1.0.0` or `^1.2.0`; the latest version when omitted */
+  version?: string
+  config: Record<string, any>
+  position?: { x: number; y: number }
+}
+
+export interface FlowConnection {
+  sourceId: string
+  targetId: string
+  sourcePort?: string
+  targetPort?: string
+}
+
+export interface FlowDefinition {
+  name: string
+  version: number
+  nodes: FlowNodeDefinition[]
+  connections: FlowConnection[]
+}
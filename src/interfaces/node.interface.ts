@@ -1,3 +1,5 @@
+import { ValidationResult } from './validation.interface'
+
 export interface NodeResult<T = any> {
   success: boolean
   data?: T
@@ -5,10 +7,18 @@ export interface NodeResult<T = any> {
   metrics?: {
     executionTime: number
     recordsProcessed: number
+    attempts?: number
   }
+  /** Overrides automatic error classification when deciding whether to retry */
+  retryable?: boolean
+  /** Set when the node stopped because ExecutionContext.signal was aborted */
+  cancelled?: boolean
   recordsProcessed?: number
   duration?: number
+  /** Whatever `compensate()` needs to undo the side effects of this execution */
   rollbackData?: any
+  /** Set on checkpointed results once compensate() undid them, so resume() runs the node again */
+  compensated?: boolean
 }
 
 export interface INode<TInput = any, TOutput = any, TConfig = any> {
@@ -17,6 +27,19 @@ export interface INode<TInput = any, TOutput = any, TConfig = any> {
   readonly category: string
   
   execute(input: TInput, context?: any): Promise<NodeResult<TOutput>>
+  /**
+   * Record-by-record variant of execute(): consumes `records` from the upstream node (if any)
+   * and yields output records as they are pulled, so memory stays bounded
+   */
+  executeStream?(input: TInput, records?: AsyncIterable<any>, context?: any): AsyncIterable<any>
   validate(input: TInput): boolean
+  validateInput?(input: TInput): ValidationResult
+  /**
+   * Whether running `input` again cannot duplicate its effects, so the executor may retry it after a
+   * timeout; defaults to `configuration.idempotent` for BaseNode subclasses
+   */
+  isIdempotent?(input: TInput): boolean
+  /** Undo a successful execution using the `rollbackData` it returned */
+  compensate?(rollbackData: any, context?: any): Promise<NodeResult<void>>
   getConfig(): TConfig
 }
\ No newline at end of file
@@ -180,6 +180,7 @@ export interface FlowExecutionMessage extends BaseMessage {
     nodes: Array<{
       id: string;
       type: string;
+      version?: string;
       config: Record<string, any>;
       position?: { x: number; y: number };
     }>;
@@ -10,7 +10,6 @@ import {
   SystemAlertMessage,
   FlowStatusMessage,
   Exchanges,
-  Queues,
   RoutingKeys,
 } from "./message-schemas";
 
@@ -1,6 +1,18 @@
+import { z } from "zod";
 import { BaseNode, NodeMetadata } from "../../base/base-node";
 import { NodeResult } from "../../interfaces/node.interface";
-import { MongoClient, Db, Collection, ObjectId, ClientSession } from "mongodb";
+import { ValidationResult } from "../../interfaces/validation.interface";
+import { ExecutionContext } from "../../interfaces/execution-context.interface";
+import { CancellationUtils } from "../../utils/cancellation";
+import { StreamUtils } from "../../utils/stream";
+import {
+  MongoClient,
+  Collection,
+  ObjectId,
+  AbstractCursor,
+  BSON,
+} from "mongodb";
+import { ValidationUtils } from "../../utils/validation";
 
 export type MongoOperation =
   | "find"
@@ -23,7 +35,9 @@ export interface MongoDBInput {
   update?: Record<string, any>;
   pipeline?: Record<string, any>[];
   options?: {
+    /** @deprecated Ignored: the executor applies `configuration.timeout` to each attempt */
     timeout?: number;
+    /** @deprecated Ignored: the executor retries according to `configuration.retries` */
     retries?: number;
     upsert?: boolean;
     sort?: Record<string, any>;
@@ -43,6 +57,21 @@ export interface MongoDBOutput {
   operationType: MongoOperation;
 }
 
+/**
+ * Kept in NodeResults and checkpoints, so it holds no connection details; compensate() connects
+ * with the connectionString of the node's input or config. Ids and documents are canonical
+ * Extended JSON, so ObjectIds, Dates and numeric types survive a JSON checkpoint.
+ */
+export interface MongoDBRollbackData {
+  database: string;
+  collection: string;
+  operation: MongoOperation;
+  /** Ids of the documents created by inserts or upserts, deleted on compensation */
+  insertedIds?: BSON.Document[];
+  /** Documents as they were before an update or delete, restored on compensation */
+  originals?: BSON.Document[];
+}
+
 export interface MongoDBConfig {
   connectionPool?: {
     maxPoolSize?: number;
@@ -50,7 +79,9 @@ export interface MongoDBConfig {
     maxIdleTimeMS?: number;
     serverSelectionTimeoutMS?: number;
   };
+  /** @deprecated Ignored: the executor applies `configuration.timeout` to each attempt */
   defaultTimeout?: number;
+  /** @deprecated Ignored: the executor retries according to `configuration.retries` */
   defaultRetries?: number;
 }
 
@@ -64,6 +95,7 @@ export class MongoDBOperationsNode extends BaseNode<
   readonly category = "database";
 
   private client: MongoClient | null = null;
+  private activeCursor: AbstractCursor | null = null;
 
   static getMetadata(): NodeMetadata {
     return {
@@ -187,12 +219,70 @@ export class MongoDBOperationsNode extends BaseNode<
           targetInputPin: "source",
           compatibility: "full",
         },
+        {
+          targetType: "postgresql-query",
+          outputPin: "result",
+          targetInputPin: "parameters",
+          compatibility: "partial",
+          transformations: [
+            { from: "result", to: "parameters", function: "firstValues" },
+          ],
+        },
+        {
+          targetType: "mongodb-operations",
+          outputPin: "result",
+          targetInputPin: "document",
+          compatibility: "full",
+        },
+        {
+          targetType: "conditional-router",
+          outputPin: "result",
+          targetInputPin: "data",
+          compatibility: "full",
+        },
+        {
+          targetType: "for-each",
+          outputPin: "result",
+          targetInputPin: "items",
+          compatibility: "full",
+        },
+        {
+          targetType: "data-join",
+          outputPin: "result",
+          targetInputPin: "left",
+          compatibility: "full",
+        },
+        {
+          targetType: "data-join",
+          outputPin: "result",
+          targetInputPin: "right",
+          compatibility: "full",
+        },
+        {
+          targetType: "data-aggregate",
+          outputPin: "result",
+          targetInputPin: "data",
+          compatibility: "full",
+        },
+        {
+          targetType: "data-sort",
+          outputPin: "result",
+          targetInputPin: "data",
+          compatibility: "full",
+        },
       ],
       configuration: {
         timeout: 30000,
         retries: 3,
-        concurrency: 1,
+        concurrency: 5,
         batchSize: 1000,
+        batchInput: "document",
+        batchMerge: {
+          "result.insertedIds": "offsetKeys",
+          insertedCount: "sum",
+          insertedIds: "offsetKeys",
+          operationType: "first",
+        },
       },
       tags: ["database", "mongodb", "nosql", "crud"],
       relatedNodes: ["data-filter", "field-mapper", "postgresql-query"],
@@ -203,24 +293,34 @@ export class MongoDBOperationsNode extends BaseNode<
     super(config);
   }
 
-  async execute(input: MongoDBInput): Promise<NodeResult<MongoDBOutput>> {
+  async execute(
+    input: MongoDBInput,
+    context?: ExecutionContext
+  ): Promise<NodeResult<MongoDBOutput>> {
     const startTime = Date.now();
-    const timeout =
-      input.options?.timeout || this.config.defaultTimeout || 30000;
-    const retries = input.options?.retries || this.config.defaultRetries || 3;
+    const signal = context?.signal;
+
+    if (CancellationUtils.isCancelled(signal)) {
+      return CancellationUtils.cancelledResult(startTime);
+    }
+
+    // Closing the cursor and the client interrupts the running operation
+    const detachAbort = CancellationUtils.onAbort(signal, () => {
+      this.activeCursor?.close().catch(() => {});
+      this.client?.close().catch(() => {});
+    });
 
     try {
-      // Connection with retry logic
-      await this.connectWithRetry(input.connectionString, retries);
+      // Timeouts and retries are left to NodeExecutionWrapper, so a failure is never retried twice over
+      await this.connect(input.connectionString);
 
       const db = this.client!.db(input.database);
       const collection = db.collection(input.collection);
 
-      // Execute operation with timeout
-      const result = await Promise.race([
-        this.executeOperation(collection, input),
-        this.createTimeoutPromise(timeout),
-      ]);
+      const { result, rollbackData } = await CancellationUtils.race(
+        this.executeWithRollback(collection, input),
+        signal
+      );
 
       const executionTime = Date.now() - startTime;
 
@@ -234,50 +334,273 @@ export class MongoDBOperationsNode extends BaseNode<
           executionTime,
           recordsProcessed: this.getRecordsProcessed(result, input.operation),
         },
+        rollbackData,
       };
     } catch (error) {
+      if (CancellationUtils.isCancelled(signal)) {
+        return CancellationUtils.cancelledResult(startTime);
+      }
+
       return {
         success: false,
         error: error instanceof Error ? error.message : "Unknown MongoDB error",
       };
     } finally {
+      detachAbort();
+      this.activeCursor = null;
       await this.disconnect();
     }
   }
 
-  private async connectWithRetry(
-    connectionString: string,
-    retries: number
-  ): Promise<void> {
-    let lastError: Error | null = null;
+  /**
+   * Reads can be repeated after a timeout; writes (and pipelines with $out or $merge) may already
+   * have been applied
+   */
+  isIdempotent(input: MongoDBInput): boolean {
+    switch (input.operation) {
+      case "find":
+      case "findOne":
+        return true;
+      case "aggregate":
+        return !(input.pipeline || []).some((stage) => "$out" in stage || "$merge" in stage);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Undo a write using the rollback data returned by execute(): inserted documents are
+   * deleted, updated documents are replaced by their previous version and deleted ones
+   * are inserted back.
+   */
+  async compensate(
+    rollbackData: MongoDBRollbackData,
+    context?: ExecutionContext
+  ): Promise<NodeResult<void>> {
+    const startTime = Date.now();
+    let recordsProcessed = 0;
 
-    for (let attempt = 1; attempt <= retries; attempt++) {
-      try {
-        this.client = new MongoClient(connectionString, {
-          maxPoolSize: this.config.connectionPool?.maxPoolSize || 10,
-          minPoolSize: this.config.connectionPool?.minPoolSize || 1,
-          maxIdleTimeMS: this.config.connectionPool?.maxIdleTimeMS || 30000,
-          serverSelectionTimeoutMS:
-            this.config.connectionPool?.serverSelectionTimeoutMS || 5000,
-        });
-
-        await this.client.connect();
-        return;
-      } catch (error) {
-        lastError =
-          error instanceof Error ? error : new Error("Connection failed");
+    const connectionString = context?.input?.connectionString ?? context?.config?.connectionString;
+    if (!connectionString) {
+      return {
+        success: false,
+        error: "Compensation needs the connectionString the node ran with in context.input or context.config",
+        metrics: { executionTime: 0, recordsProcessed: 0 },
+      };
+    }
+
+    try {
+      await this.connect(connectionString);
+
+      const collection = this.client!
+        .db(rollbackData.database)
+        .collection(rollbackData.collection);
 
-        if (attempt < retries) {
-          // Exponential backoff
-          const delay = Math.pow(2, attempt - 1) * 1000;
-          await new Promise((resolve) => setTimeout(resolve, delay));
+      const insertedIds: any[] = BSON.EJSON.deserialize(rollbackData.insertedIds || []);
+      if (insertedIds.length > 0) {
+        const deleted = await collection.deleteMany({ _id: { $in: insertedIds } });
+        recordsProcessed += deleted.deletedCount;
+      }
+
+      const originals: BSON.Document[] = BSON.EJSON.deserialize(rollbackData.originals || []);
+      if (rollbackData.operation.startsWith("update")) {
+        for (const original of originals) {
+          await collection.replaceOne({ _id: original._id }, original);
+          recordsProcessed++;
         }
+      } else if (originals.length > 0) {
+        const restored = await collection.insertMany(originals);
+        recordsProcessed += restored.insertedCount;
+      }
+
+      context?.logger?.info?.(
+        `Compensated MongoDB ${rollbackData.operation} on ${rollbackData.collection}`,
+        { recordsProcessed }
+      );
+
+      return {
+        success: true,
+        metrics: {
+          executionTime: Date.now() - startTime,
+          recordsProcessed,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown MongoDB error",
+        metrics: {
+          executionTime: Date.now() - startTime,
+          recordsProcessed,
+        },
+      };
+    } finally {
+      await this.disconnect();
+    }
+  }
+
+  /**
+   * Streaming variant: `find` and `aggregate` yield documents from the cursor, while `insertMany`
+   * (or `insertOne`) writes the upstream records in batches of `configuration.batchSize` and
+   * yields them once stored
+   */
+  async *executeStream(
+    input: MongoDBInput,
+    records?: AsyncIterable<any>,
+    context?: ExecutionContext
+  ): AsyncGenerator<any> {
+    const signal = context?.signal;
+    const batchSize = this.getConfiguration().batchSize || 1000;
+
+    CancellationUtils.throwIfCancelled(signal);
+    await this.connect(input.connectionString);
+    const detachAbort = CancellationUtils.onAbort(signal, () => {
+      this.activeCursor?.close().catch(() => {});
+    });
+
+    try {
+      const collection = this.client!
+        .db(input.database)
+        .collection(input.collection);
+      const query = this.processObjectIds(input.query || {});
+      const options = input.options || {};
+
+      switch (input.operation) {
+        case "find":
+          const findOptions: any = { batchSize };
+          if (options.sort) findOptions.sort = options.sort;
+          if (options.limit) findOptions.limit = options.limit;
+          if (options.skip) findOptions.skip = options.skip;
+          if (options.projection) findOptions.projection = options.projection;
+
+          const findCursor = collection.find(query, findOptions);
+          this.activeCursor = findCursor;
+          for await (const document of findCursor) {
+            CancellationUtils.throwIfCancelled(signal);
+            yield document;
+          }
+          break;
+
+        case "aggregate":
+          if (!input.pipeline) {
+            throw new Error("aggregate requires a pipeline");
+          }
+
+          const aggregateCursor = collection.aggregate(input.pipeline, {
+            batchSize,
+          });
+          this.activeCursor = aggregateCursor;
+          for await (const document of aggregateCursor) {
+            CancellationUtils.throwIfCancelled(signal);
+            yield document;
+          }
+          break;
+
+        case "insertOne":
+        case "insertMany":
+          const source =
+            records ||
+            StreamUtils.from(
+              Array.isArray(input.document)
+                ? input.document
+                : input.document
+                ? [input.document]
+                : []
+            );
+
+          for await (const batch of StreamUtils.chunk(source, batchSize)) {
+            CancellationUtils.throwIfCancelled(signal);
+            await collection.insertMany(batch);
+            yield* batch;
+          }
+          break;
+
+        default:
+          throw new Error(
+            `Operation '${input.operation}' does not support streaming`
+          );
       }
+    } finally {
+      detachAbort();
+      this.activeCursor = null;
+      await this.disconnect();
     }
+  }
 
-    throw new Error(
-      `Failed to connect after ${retries} attempts: ${lastError?.message}`
-    );
+  private async executeWithRollback(
+    collection: Collection,
+    input: MongoDBInput
+  ): Promise<{
+    result: Omit<MongoDBOutput, "operationType">;
+    rollbackData?: MongoDBRollbackData;
+  }> {
+    const originals = await this.captureOriginals(collection, input);
+    const result = await this.executeOperation(collection, input);
+
+    return {
+      result,
+      rollbackData: this.buildRollbackData(input, result, originals),
+    };
+  }
+
+  /**
+   * Read the documents an update or delete is about to change
+   */
+  private async captureOriginals(
+    collection: Collection,
+    input: MongoDBInput
+  ): Promise<Record<string, any>[] | undefined> {
+    const query = this.processObjectIds(input.query || {});
+
+    switch (input.operation) {
+      case "updateOne":
+      case "deleteOne":
+        const original = await collection.findOne(query);
+        return original ? [original] : [];
+      case "updateMany":
+      case "deleteMany":
+        return collection.find(query).toArray();
+      default:
+        return undefined;
+    }
+  }
+
+  private buildRollbackData(
+    input: MongoDBInput,
+    output: Omit<MongoDBOutput, "operationType">,
+    originals?: Record<string, any>[]
+  ): MongoDBRollbackData | undefined {
+    const insertedIds =
+      input.operation === "insertOne" || input.operation === "insertMany"
+        ? Object.values(output.insertedIds || {})
+        : output.result?.upsertedId
+        ? [output.result.upsertedId]
+        : undefined;
+
+    if (!insertedIds && !originals) {
+      return undefined;
+    }
+
+    return {
+      database: input.database,
+      collection: input.collection,
+      operation: input.operation,
+      insertedIds: insertedIds && this.toExtendedJSON(insertedIds),
+      originals: originals && this.toExtendedJSON(originals),
+    };
+  }
+
+  private async connect(connectionString: string): Promise<void> {
+    this.client = new MongoClient(connectionString, {
+      maxPoolSize: this.config.connectionPool?.maxPoolSize || 10,
+      minPoolSize: this.config.connectionPool?.minPoolSize || 1,
+      maxIdleTimeMS: this.config.connectionPool?.maxIdleTimeMS || 30000,
+      serverSelectionTimeoutMS:
+        this.config.connectionPool?.serverSelectionTimeoutMS || 5000,
+    });
+
+    await this.client.connect();
   }
 
   private async executeOperation(
@@ -305,9 +628,9 @@ export class MongoDBOperationsNode extends BaseNode<
         if (options.skip) findOptions.skip = options.skip;
         if (options.projection) findOptions.projection = options.projection;
 
-        const findResult = await collection
-          .find(processedQuery, findOptions)
-          .toArray();
+        const findCursor = collection.find(processedQuery, findOptions);
+        this.activeCursor = findCursor;
+        const findResult = await findCursor.toArray();
         return {
           result: findResult,
           matchedCount: findResult.length,
@@ -385,6 +708,7 @@ export class MongoDBOperationsNode extends BaseNode<
             matchedCount: updateManyResult.matchedCount,
             modifiedCount: updateManyResult.modifiedCount,
             upsertedCount: updateManyResult.upsertedCount,
+            upsertedId: updateManyResult.upsertedId,
           },
           matchedCount: updateManyResult.matchedCount,
           modifiedCount: updateManyResult.modifiedCount,
@@ -409,7 +733,9 @@ export class MongoDBOperationsNode extends BaseNode<
           throw new Error("aggregate requires a pipeline");
         }
 
-        const aggregateResult = await collection.aggregate(pipeline).toArray();
+        const aggregateCursor = collection.aggregate(pipeline);
+        this.activeCursor = aggregateCursor;
+        const aggregateResult = await aggregateCursor.toArray();
         return {
           result: aggregateResult,
           matchedCount: aggregateResult.length,
@@ -420,6 +746,10 @@ export class MongoDBOperationsNode extends BaseNode<
     }
   }
 
+  private toExtendedJSON(values: any[]): BSON.Document[] {
+    return BSON.EJSON.serialize(values, { relaxed: false }) as BSON.Document[];
+  }
+
   private processObjectIds(obj: any): any {
     if (!obj || typeof obj !== "object") {
       return obj;
@@ -448,14 +778,6 @@ export class MongoDBOperationsNode extends BaseNode<
     return processed;
   }
 
-  private createTimeoutPromise(timeout: number): Promise<never> {
-    return new Promise((_, reject) => {
-      setTimeout(() => {
-        reject(new Error(`Operation timed out after ${timeout}ms`));
-      }, timeout);
-    });
-  }
-
   private getRecordsProcessed(result: any, operation: MongoOperation): number {
     switch (operation) {
       case "find":
@@ -491,50 +813,46 @@ export class MongoDBOperationsNode extends BaseNode<
     }
   }
 
-  validate(input: MongoDBInput): boolean {
-    if (!super.validate(input)) return false;
-
-    // Required fields validation
-    if (
-      !input.connectionString ||
-      !input.database ||
-      !input.collection ||
-      !input.operation
-    ) {
-      return false;
-    }
+  protected buildInputSchema(): z.AnyZodObject | null {
+    // insertMany takes an array of documents
+    return (
+      super.buildInputSchema()?.extend({
+        document: z.union([z.record(z.any()), z.array(z.record(z.any()))]).optional(),
+      }) || null
+    );
+  }
+
+  validateInput(input: MongoDBInput): ValidationResult {
+    const result = super.validateInput(input);
+    if (!result.valid) return result;
 
     // Operation-specific validation
+    const error = ValidationUtils.fieldErrors("INVALID_OPERATION_INPUT", result.warnings);
+
     switch (input.operation) {
       case "insertOne":
-        return !!input.document && !Array.isArray(input.document);
+        return !!input.document && !Array.isArray(input.document)
+          ? result
+          : error("document", "insertOne requires a single document");
 
       case "insertMany":
-        return (
-          !!input.document &&
-          Array.isArray(input.document) &&
-          input.document.length > 0
-        );
+        return Array.isArray(input.document) && input.document.length > 0
+          ? result
+          : error("document", "insertMany requires a non-empty array of documents");
 
       case "updateOne":
       case "updateMany":
-        return !!input.update;
+        return input.update
+          ? result
+          : error("update", `${input.operation} requires an update document`);
 
       case "aggregate":
-        return (
-          !!input.pipeline &&
-          Array.isArray(input.pipeline) &&
-          input.pipeline.length > 0
-        );
-
-      case "find":
-      case "findOne":
-      case "deleteOne":
-      case "deleteMany":
-        return true; // Query is optional for these operations
+        return Array.isArray(input.pipeline) && input.pipeline.length > 0
+          ? result
+          : error("pipeline", "aggregate requires a non-empty pipeline");
 
       default:
-        return false;
+        return result; // Query is optional for the remaining operations
     }
   }
 
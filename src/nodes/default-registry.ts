@@ -0,0 +1,44 @@
+import { NodeRegistry } from '../base/node-registry'
+import { NodeMetadata } from '../base/base-node'
+import { INode } from '../interfaces/node.interface'
+import { PostgreSQLQueryNode } from './database/postgresql-query.node'
+import { MongoDBOperationsNode } from './database/mongodb-operations.node'
+import { DataFilterNode } from './transformation/data-filter.node'
+import { FieldMapperNode } from './transformation/field-mapper.node'
+import { DataJoinNode } from './transformation/data-join.node'
+import { DataAggregateNode } from './transformation/data-aggregate.node'
+import { DataSortNode } from './transformation/data-sort.node'
+import { ConditionalRouterNode } from './logic/conditional-router.node'
+import { ForEachNode } from './logic/for-each.node'
+
+export type BuiltInNodeClass = (new (config?: any) => INode) & { getMetadata(): NodeMetadata }
+
+/**
+ * Node classes shipped with the library, in registration order
+ */
+export function getBuiltInNodes(): BuiltInNodeClass[] {
+  // A function rather than a constant: node modules import each other, so a module-level list
+  // could be built before every class is defined
+  return [
+    PostgreSQLQueryNode,
+    MongoDBOperationsNode,
+    DataFilterNode,
+    FieldMapperNode,
+    DataJoinNode,
+    DataAggregateNode,
+    DataSortNode,
+    ConditionalRouterNode,
+    ForEachNode
+  ]
+}
+
+/**
+ * Registry holding every built-in node under the type and version declared by its metadata
+ */
+export function createDefaultRegistry(): NodeRegistry {
+  const registry = new NodeRegistry()
+  for (const NodeClass of getBuiltInNodes()) {
+    registry.registerNode(NodeClass)
+  }
+  return registry
+}
@@ -1,4 +1,10 @@
 export * from './database/postgresql-query.node'
 export * from './database/mongodb-operations.node'
 export * from './transformation/data-filter.node'
-export * from './transformation/field-mapper.node'
\ No newline at end of file
+export * from './transformation/field-mapper.node'
+export * from './transformation/data-join.node'
+export * from './transformation/data-aggregate.node'
+export * from './transformation/data-sort.node'
+export * from './logic/conditional-router.node'
+export * from './logic/for-each.node'
+export * from './default-registry'
@@ -0,0 +1,235 @@
+import { BaseNode, NodeMetadata } from '../../base/base-node'
+import { NodeResult } from '../../interfaces/node.interface'
+import { ExecutionContext } from '../../interfaces/execution-context.interface'
+import { ValidationResult } from '../../interfaces/validation.interface'
+import { WILDCARD_PIN } from '../../interfaces/compatibility.interface'
+import { CancellationUtils } from '../../utils/cancellation'
+import { ConditionEvaluator, ConditionOperator } from '../../utils/conditions'
+import { ValidationUtils } from '../../utils/validation'
+
+interface RouterCondition {
+  field: string
+  operator: ConditionOperator
+  value: any
+}
+
+interface RouterCase {
+  /** Output pin receiving the records of this case */
+  name: string
+  conditions: RouterCondition[]
+}
+
+interface ConditionalRouterInput {
+  data: any[]
+  /** `if` mode: records matching every condition go to `true`, the rest to `false` */
+  conditions?: RouterCondition[]
+  /** `switch` mode: each record goes to the first matching case, or to `default` */
+  cases?: RouterCase[]
+}
+
+/**
+ * Records per output pin. Pins that receive no records are left out, so the flow runtime
+ * skips the branches connected to them.
+ */
+type ConditionalRouterOutput = Record<string, any[]>
+
+const RESERVED_PINS = ['true', 'false', 'default']
+
+export class ConditionalRouterNode extends BaseNode<ConditionalRouterInput, ConditionalRouterOutput, any> {
+  readonly type = 'conditional-router'
+  readonly version = '1.0.0'
+  readonly category = 'logic'
+
+  static getMetadata(): NodeMetadata {
+    return {
+      type: 'conditional-router',
+      name: 'Conditional Router',
+      description: 'Routes records to named outputs using if/else conditions or switch cases',
+      version: '1.0.0',
+      category: 'logic',
+      icon: 'git-branch',
+      inputs: [
+        {
+          name: 'data',
+          type: 'array',
+          required: true,
+          description: 'Array of objects to route'
+        },
+        {
+          name: 'conditions',
+          type: 'array',
+          required: false,
+          description: 'If mode: records matching all conditions go to "true", the others to "false"'
+        },
+        {
+          name: 'cases',
+          type: 'array',
+          required: false,
+          description: 'Switch mode: [{ name, conditions }]; records go to the output named after the first matching case, or to "default"'
+        }
+      ],
+      outputs: [
+        {
+          name: 'true',
+          type: 'array',
+          description: 'Records matching the conditions (if mode)',
+          schema: { type: 'array', items: { type: 'object' } }
+        },
+        {
+          name: 'false',
+          type: 'array',
+          description: 'Records not matching the conditions (if mode)',
+          schema: { type: 'array', items: { type: 'object' } }
+        },
+        {
+          name: 'default',
+          type: 'array',
+          description: 'Records matching no case (switch mode)',
+          schema: { type: 'array', items: { type: 'object' } }
+        },
+        {
+          name: WILDCARD_PIN,
+          type: 'array',
+          description: 'One output per switch case, named after the case',
+          schema: { type: 'array', items: { type: 'object' } }
+        }
+      ],
+      compatibilityMatrix: [
+        {
+          targetType: 'data-filter',
+          outputPin: WILDCARD_PIN,
+          targetInputPin: 'data',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'field-mapper',
+          outputPin: WILDCARD_PIN,
+          targetInputPin: 'source',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'mongodb-operations',
+          outputPin: WILDCARD_PIN,
+          targetInputPin: 'document',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'conditional-router',
+          outputPin: WILDCARD_PIN,
+          targetInputPin: 'data',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'for-each',
+          outputPin: WILDCARD_PIN,
+          targetInputPin: 'items',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-join',
+          outputPin: WILDCARD_PIN,
+          targetInputPin: 'left',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-join',
+          outputPin: WILDCARD_PIN,
+          targetInputPin: 'right',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-aggregate',
+          outputPin: WILDCARD_PIN,
+          targetInputPin: 'data',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-sort',
+          outputPin: WILDCARD_PIN,
+          targetInputPin: 'data',
+          compatibility: 'full'
+        }
+      ],
+      configuration: {
+        timeout: 10000,
+        retries: 2,
+        concurrency: 1,
+        batchSize: 5000,
+        batchInput: 'data',
+        batchMerge: { [WILDCARD_PIN]: 'concat' },
+        idempotent: true
+      },
+      tags: ['logic', 'router', 'switch', 'conditional'],
+      relatedNodes: ['data-filter', 'field-mapper', 'mongodb-operations']
+    }
+  }
+
+  async execute(input: ConditionalRouterInput, context?: ExecutionContext): Promise<NodeResult<ConditionalRouterOutput>> {
+    const startTime = Date.now()
+
+    try {
+      // Case names are user input: without a prototype, names like 'constructor' or '__proto__' are plain pins
+      const routes: ConditionalRouterOutput = Object.create(null)
+      const visited = await CancellationUtils.forEachChunk(input.data, context?.signal, item => {
+        const pin = this.route(item, input)
+        if (!routes[pin]) routes[pin] = []
+        routes[pin].push(item)
+      })
+
+      if (visited < input.data.length) {
+        return CancellationUtils.cancelledResult(startTime, visited)
+      }
+
+      return {
+        success: true,
+        data: routes,
+        metrics: {
+          executionTime: Date.now() - startTime,
+          recordsProcessed: input.data.length
+        }
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  validateInput(input: ConditionalRouterInput): ValidationResult {
+    const result = super.validateInput(input)
+    if (!result.valid) return result
+
+    const error = ValidationUtils.fieldErrors('INVALID_ROUTING')
+
+    if (input.cases && input.cases.length > 0) {
+      const names = input.cases.map(routerCase => routerCase.name)
+      const invalid = names.find(name => !name || name === WILDCARD_PIN || RESERVED_PINS.includes(name))
+      if (invalid !== undefined) {
+        return error('cases', `Invalid case name '${invalid}': names must be non-empty and not ${[WILDCARD_PIN, ...RESERVED_PINS].join(', ')}`)
+      }
+      if (new Set(names).size !== names.length) {
+        return error('cases', 'Case names must be unique')
+      }
+    } else if (!input.conditions || input.conditions.length === 0) {
+      return error('conditions', 'Either conditions (if mode) or cases (switch mode) are required')
+    }
+
+    return result
+  }
+
+  private route(item: any, input: ConditionalRouterInput): string {
+    if (input.cases && input.cases.length > 0) {
+      const match = input.cases.find(routerCase => this.matches(item, routerCase.conditions))
+      return match ? match.name : 'default'
+    }
+
+    return this.matches(item, input.conditions || []) ? 'true' : 'false'
+  }
+
+  private matches(item: any, conditions: RouterCondition[]): boolean {
+    return conditions.every(condition =>
+      ConditionEvaluator.evaluate(item?.[condition.field], condition.operator, condition.value)
+    )
+  }
+}
@@ -0,0 +1,519 @@
+import { cloneDeep, get, set } from 'lodash'
+import { BaseNode, NodeMetadata } from '../../base/base-node'
+import { NodeRegistry } from '../../base/node-registry'
+import { NodeResult } from '../../interfaces/node.interface'
+import { ExecutionContext } from '../../interfaces/execution-context.interface'
+import { ValidationResult } from '../../interfaces/validation.interface'
+import { FlowDefinition } from '../../interfaces/flow.interface'
+import { NodeExecutionWrapper } from '../../execution/node-execution-wrapper'
+import { FlowExecutor } from '../../execution/flow-executor'
+import { CancellationUtils } from '../../utils/cancellation'
+import { ValidationUtils } from '../../utils/validation'
+
+/** Binding source referring to the whole item instead of one of its fields */
+const WHOLE_ITEM = '$'
+
+interface ForEachInnerNode {
+  type: string
+  /** Semver range of the inner node version; the latest version when omitted */
+  version?: string
+  /** Input shared by every iteration */
+  config?: Record<string, any>
+}
+
+interface ForEachInput {
+  items: any[]
+  /** Node executed once per item */
+  node?: ForEachInnerNode
+  /** Sub-flow executed once per item */
+  flow?: FlowDefinition
+  /**
+   * Target path → item path (`$` for the whole item). Targets are input paths of the inner node,
+   * e.g. `parameters[0]`, or `nodeId.path` in a sub-flow, e.g. `lookup.parameters[0]`
+   */
+  bindings?: Record<string, string>
+  concurrency?: number
+  /** Stop at the first failing item and fail the node instead of collecting the error */
+  stopOnError?: boolean
+}
+
+interface ForEachItemError {
+  index: number
+  item: any
+  error: string
+}
+
+/**
+ * Rollback data an inner node returned for one record, with the version that produced it
+ */
+interface ForEachItemRollback {
+  index: number
+  /** Sub-flow node that returned it; unset for the inner node of `node` */
+  nodeId?: string
+  type: string
+  version: string
+  rollbackData: any
+}
+
+/** Rollback data of one sub-flow run, in the order its nodes ran */
+type ForEachFlowRollback = Omit<ForEachItemRollback, 'index'>[]
+
+export interface ForEachRollbackData {
+  items: ForEachItemRollback[]
+}
+
+interface ForEachOutput {
+  /** Output of each iteration, aligned with `items`; undefined for failed items */
+  results: any[]
+  errors: ForEachItemError[]
+  succeeded: number
+  failed: number
+}
+
+export class ForEachNode extends BaseNode<ForEachInput, ForEachOutput, any> {
+  readonly type = 'for-each'
+  readonly version = '1.0.0'
+  readonly category = 'logic'
+
+  static getMetadata(): NodeMetadata {
+    return {
+      type: 'for-each',
+      name: 'For Each',
+      description: 'Runs a node or sub-flow once per record with inputs bound from the record',
+      version: '1.0.0',
+      category: 'logic',
+      icon: 'repeat',
+      inputs: [
+        {
+          name: 'items',
+          type: 'array',
+          required: true,
+          description: 'Records to iterate'
+        },
+        {
+          name: 'node',
+          type: 'object',
+          required: false,
+          description: 'Inner node { type, version, config } executed per record'
+        },
+        {
+          name: 'flow',
+          type: 'object',
+          required: false,
+          description: 'Sub-flow definition executed per record, instead of a single node'
+        },
+        {
+          name: 'bindings',
+          type: 'object',
+          required: false,
+          description: 'Map of inner input path → record path ("$" binds the whole record)',
+          defaultValue: {}
+        },
+        {
+          name: 'concurrency',
+          type: 'number',
+          required: false,
+          description: 'Records processed at the same time',
+          defaultValue: 1,
+          validation: {
+            minimum: 1,
+            maximum: 100
+          }
+        },
+        {
+          name: 'stopOnError',
+          type: 'boolean',
+          required: false,
+          description: 'Fail on the first failing record instead of collecting per-record errors',
+          defaultValue: false
+        }
+      ],
+      outputs: [
+        {
+          name: 'results',
+          type: 'array',
+          description: 'Output of the inner node (or terminal sub-flow nodes) per record, in record order'
+        },
+        {
+          name: 'errors',
+          type: 'array',
+          description: 'Per-record failures: { index, item, error }',
+          schema: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                index: { type: 'number' },
+                error: { type: 'string' }
+              }
+            }
+          }
+        },
+        {
+          name: 'succeeded',
+          type: 'number',
+          description: 'Number of records processed successfully'
+        },
+        {
+          name: 'failed',
+          type: 'number',
+          description: 'Number of records that failed'
+        }
+      ],
+      compatibilityMatrix: [
+        {
+          targetType: 'data-filter',
+          outputPin: 'results',
+          targetInputPin: 'data',
+          compatibility: 'partial'
+        },
+        {
+          targetType: 'field-mapper',
+          outputPin: 'results',
+          targetInputPin: 'source',
+          compatibility: 'partial'
+        },
+        {
+          targetType: 'mongodb-operations',
+          outputPin: 'results',
+          targetInputPin: 'document',
+          compatibility: 'partial'
+        },
+        {
+          targetType: 'conditional-router',
+          outputPin: 'results',
+          targetInputPin: 'data',
+          compatibility: 'partial'
+        },
+        {
+          targetType: 'for-each',
+          outputPin: 'results',
+          targetInputPin: 'items',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-join',
+          outputPin: 'results',
+          targetInputPin: 'left',
+          compatibility: 'partial'
+        },
+        {
+          targetType: 'data-join',
+          outputPin: 'results',
+          targetInputPin: 'right',
+          compatibility: 'partial'
+        },
+        {
+          targetType: 'data-aggregate',
+          outputPin: 'results',
+          targetInputPin: 'data',
+          compatibility: 'partial'
+        },
+        {
+          targetType: 'data-sort',
+          outputPin: 'results',
+          targetInputPin: 'data',
+          compatibility: 'partial'
+        }
+      ],
+      configuration: {
+        timeout: 300000,
+        retries: 0,
+        concurrency: 1,
+        // Sub-flow expressions refer to the sub-flow's nodes and are resolved when each item runs
+        deferredInputs: ['flow']
+      },
+      tags: ['logic', 'loop', 'iteration'],
+      relatedNodes: ['postgresql-query', 'mongodb-operations', 'conditional-router']
+    }
+  }
+
+  async execute(input: ForEachInput, context?: ExecutionContext): Promise<NodeResult<ForEachOutput>> {
+    const startTime = Date.now()
+    const signal = context?.signal
+
+    try {
+      const registry = context?.registry
+      if (!registry) {
+        throw new Error('for-each needs the node registry from the execution context')
+      }
+
+      const total = input.items.length
+      const results: any[] = new Array(total)
+      const errors: ForEachItemError[] = []
+      const rollbacks: ForEachItemRollback[] = []
+      let next = 0
+      let succeeded = 0
+      let stopped = false
+
+      const worker = async (): Promise<void> => {
+        while (!stopped && next < total && !CancellationUtils.isCancelled(signal)) {
+          const index = next++
+          const item = input.items[index]
+          const result = await this.runItem(input, item, index, registry, context!)
+
+          // Failed items may have written too, e.g. the batches before the failing one
+          if (result.rollbackData !== undefined && input.node) {
+            rollbacks.push({
+              index,
+              type: input.node.type,
+              version: registry.resolveVersion(input.node.type, input.node.version)!,
+              rollbackData: result.rollbackData
+            })
+          } else if (result.rollbackData !== undefined) {
+            for (const entry of result.rollbackData as ForEachFlowRollback) {
+              rollbacks.push({ index, ...entry })
+            }
+          }
+
+          if (result.success) {
+            results[index] = result.data
+            succeeded++
+          } else if (!result.cancelled) {
+            errors.push({ index, item, error: result.error || 'Unknown error' })
+            if (input.stopOnError) stopped = true
+          }
+        }
+      }
+
+      const concurrency = Math.max(1, Math.min(input.concurrency || 1, total))
+      await Promise.all(Array.from({ length: concurrency }, () => worker()))
+
+      errors.sort((a, b) => a.index - b.index)
+      rollbacks.sort((a, b) => a.index - b.index)
+      const rollbackData: ForEachRollbackData | undefined = rollbacks.length > 0 ? { items: rollbacks } : undefined
+
+      if (CancellationUtils.isCancelled(signal)) {
+        return CancellationUtils.cancelledResult(startTime, succeeded)
+      }
+
+      if (input.stopOnError && errors.length > 0) {
+        return {
+          success: false,
+          error: `Item ${errors[0].index} failed: ${errors[0].error}`,
+          metrics: { executionTime: Date.now() - startTime, recordsProcessed: succeeded },
+          rollbackData
+        }
+      }
+
+      return {
+        success: true,
+        data: {
+          results,
+          errors,
+          succeeded,
+          failed: errors.length
+        },
+        metrics: {
+          executionTime: Date.now() - startTime,
+          recordsProcessed: total
+        },
+        rollbackData
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  /**
+   * Compensate the inner node of each record, last record first, with the input that record ran with
+   * (rebuilt from `context.input`); sub-flow nodes are compensated in reverse order too, with their
+   * config and the record's bindings. Carries on past a failing record and reports every failure.
+   */
+  async compensate(rollbackData: ForEachRollbackData, context?: ExecutionContext): Promise<NodeResult<void>> {
+    const startTime = Date.now()
+    const registry = context?.registry
+    if (!registry) {
+      return { success: false, error: 'for-each needs the node registry from the execution context' }
+    }
+
+    const input = context?.input as ForEachInput | undefined
+    const errors: string[] = []
+    let recordsProcessed = 0
+
+    for (const entry of [...rollbackData.items].reverse()) {
+      const label = entry.nodeId ? `Item ${entry.index} (${entry.nodeId})` : `Item ${entry.index}`
+
+      try {
+        const config = this.innerConfig(entry, input)
+        const instance = registry.create(entry.type, config, entry.version)
+        if (!instance.compensate) {
+          throw new Error(`Node type '${entry.type}' returned rollback data but does not implement compensate()`)
+        }
+
+        const node: ForEachInnerNode = { type: entry.type, version: entry.version, config }
+        const result = await instance.compensate(entry.rollbackData, {
+          ...context,
+          nodeId: `${context!.nodeId}[${entry.index}]${entry.nodeId ? `.${entry.nodeId}` : ''}`,
+          config,
+          // Sub-flow node configs already carry the record's bindings
+          input: input && this.nodeInput(registry, node, entry.nodeId ? {} : input.bindings, input.items?.[entry.index])
+        })
+
+        if (result.success) {
+          recordsProcessed += result.metrics?.recordsProcessed || 0
+        } else {
+          errors.push(`${label}: ${result.error || 'Unknown error'}`)
+        }
+      } catch (error) {
+        errors.push(`${label}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      error: errors.length > 0 ? errors.join('; ') : undefined,
+      metrics: { executionTime: Date.now() - startTime, recordsProcessed }
+    }
+  }
+
+  validateInput(input: ForEachInput): ValidationResult {
+    const result = super.validateInput(input)
+    if (!result.valid) return result
+
+    const error = ValidationUtils.fieldErrors('INVALID_ITERATION')
+
+    if (!input.node === !input.flow) {
+      return error('node', 'Exactly one of node or flow is required')
+    }
+    if (input.node && !input.node.type) {
+      return error('node', 'Inner node type is required')
+    }
+    if (input.flow && !Array.isArray(input.flow.nodes)) {
+      return error('flow', 'Sub-flow must declare its nodes')
+    }
+
+    return result
+  }
+
+  private async runItem(
+    input: ForEachInput,
+    item: any,
+    index: number,
+    registry: NodeRegistry,
+    context: ExecutionContext
+  ): Promise<NodeResult> {
+    const itemContext: ExecutionContext = { ...context, nodeId: `${context.nodeId}[${index}]` }
+
+    try {
+      return input.flow
+        ? await this.runFlow(input.flow, this.bind({}, input.bindings, item), registry, itemContext)
+        : await this.runNode(input.node!, this.nodeInput(registry, input.node!, input.bindings, item), registry, itemContext)
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  }
+
+  private async runNode(
+    node: ForEachInnerNode,
+    nodeInput: Record<string, any>,
+    registry: NodeRegistry,
+    context: ExecutionContext
+  ): Promise<NodeResult> {
+    const instance = registry.create(node.type, node.config || {}, node.version)
+
+    const validation = instance.validateInput
+      ? instance.validateInput(nodeInput)
+      : { valid: instance.validate(nodeInput), errors: [] }
+    if (!validation.valid) {
+      const details = validation.errors.map(error => error.message).join('; ')
+      return { success: false, error: `Invalid input for ${node.type}${details ? `: ${details}` : ''}` }
+    }
+
+    const policy = NodeExecutionWrapper.policyFromMetadata(registry.getNodeMetadata(node.type, node.version)?.configuration)
+    return NodeExecutionWrapper.run(instance, nodeInput, { ...context, config: node.config || {} }, policy)
+  }
+
+  /**
+   * Bound values are `nodeId.path` entries merged into the sub-flow node configs.
+   * The item result holds the output of each terminal node (nodes without outgoing connections),
+   * and its rollback data that of each sub-flow node the sub-flow did not compensate itself.
+   */
+  private async runFlow(
+    flow: FlowDefinition,
+    bound: Record<string, any>,
+    registry: NodeRegistry,
+    context: ExecutionContext
+  ): Promise<NodeResult> {
+    const flowData = cloneDeep(flow)
+    for (const node of flowData.nodes) {
+      if (bound[node.id] !== undefined) {
+        node.config = { ...node.config, ...bound[node.id] }
+      }
+    }
+
+    const execution = await new FlowExecutor(registry, { logger: context.logger, concurrency: 1 }).execute(
+      { flowId: context.flowId, flowData },
+      { signal: context.signal, parentNodeId: context.nodeId }
+    )
+
+    const rollbackData: ForEachFlowRollback = []
+    for (const nodeId of execution.executionOrder) {
+      const node = flowData.nodes.find(candidate => candidate.id === nodeId)!
+      const result = execution.results[nodeId]
+      if (result?.rollbackData !== undefined && execution.statuses[nodeId] !== 'compensated') {
+        rollbackData.push({
+          nodeId,
+          type: node.type,
+          version: registry.resolveVersion(node.type, node.version)!,
+          rollbackData: result.rollbackData
+        })
+      }
+    }
+
+    if (execution.status !== 'completed') {
+      return {
+        success: false,
+        cancelled: execution.status === 'cancelled',
+        error: execution.error || `Sub-flow ${execution.status}`,
+        rollbackData: rollbackData.length > 0 ? rollbackData : undefined
+      }
+    }
+
+    const terminal: Record<string, any> = {}
+    for (const node of flowData.nodes) {
+      const hasOutgoing = flowData.connections.some(connection => connection.sourceId === node.id)
+      if (!hasOutgoing && execution.results[node.id]) {
+        terminal[node.id] = execution.results[node.id].data
+      }
+    }
+
+    return { success: true, data: terminal, rollbackData: rollbackData.length > 0 ? rollbackData : undefined }
+  }
+
+  /**
+   * Config of the node a rollback entry belongs to: the inner node config, or the sub-flow node config
+   * with the record's bindings (connections and expressions inside the sub-flow are not resolved again)
+   */
+  private innerConfig(entry: ForEachItemRollback, input?: ForEachInput): Record<string, any> {
+    if (!entry.nodeId) return input?.node?.config || {}
+
+    const node = input?.flow?.nodes.find(candidate => candidate.id === entry.nodeId)
+    const bound = input ? this.bind({}, input.bindings, input.items?.[entry.index])[entry.nodeId] : undefined
+    return { ...node?.config, ...bound }
+  }
+
+  /**
+   * Input of an inner node for one record: the input defaults from its metadata, its config and the
+   * bound item values, like FlowExecutor builds node inputs
+   */
+  private nodeInput(
+    registry: NodeRegistry,
+    node: ForEachInnerNode,
+    bindings: Record<string, string> | undefined,
+    item: any
+  ): Record<string, any> {
+    const input = { ...registry.getInputDefaults(node.type, node.version), ...cloneDeep(node.config || {}) }
+    return this.bind(input, bindings, item)
+  }
+
+  private bind(target: Record<string, any>, bindings: Record<string, string> = {}, item: any): Record<string, any> {
+    for (const [targetPath, itemPath] of Object.entries(bindings)) {
+      set(target, targetPath, itemPath === WHOLE_ITEM ? item : get(item, itemPath))
+    }
+    return target
+  }
+}
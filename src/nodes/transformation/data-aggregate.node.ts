@@ -0,0 +1,359 @@
+import { get, set } from 'lodash'
+import { BaseNode, NodeMetadata } from '../../base/base-node'
+import { NodeResult } from '../../interfaces/node.interface'
+import { ExecutionContext } from '../../interfaces/execution-context.interface'
+import { ValidationResult } from '../../interfaces/validation.interface'
+import { CancellationUtils } from '../../utils/cancellation'
+import { ValidationUtils } from '../../utils/validation'
+import { RecordKeys } from '../../utils/record-keys'
+
+type AggregateOperation = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'first' | 'last' | 'distinct'
+
+interface Aggregation {
+  operation: AggregateOperation
+  /** Path of the aggregated value; `count` without a field counts records */
+  field?: string
+  /** Output field name, defaults to `<operation>_<field>` (or `count`) */
+  as?: string
+}
+
+interface DataAggregateInput {
+  data: any[]
+  /** Grouping field path(s); without any, all records form a single group */
+  groupBy?: string | string[]
+  aggregations: Aggregation[]
+}
+
+interface DataAggregateOutput {
+  groups: Record<string, any>[]
+  group_count: number
+}
+
+interface AggregateState {
+  count: number
+  sum: number
+  numbers: number
+  value: any
+  seen?: Set<string>
+  distinct?: any[]
+}
+
+interface Group {
+  keys: any[]
+  states: AggregateState[]
+}
+
+const OPERATIONS: AggregateOperation[] = ['count', 'sum', 'avg', 'min', 'max', 'first', 'last', 'distinct']
+
+export class DataAggregateNode extends BaseNode<DataAggregateInput, DataAggregateOutput, any> {
+  readonly type = 'data-aggregate'
+  readonly version = '1.0.0'
+  readonly category = 'transformation'
+
+  static getMetadata(): NodeMetadata {
+    return {
+      type: 'data-aggregate',
+      name: 'Data Aggregate',
+      description: 'Groups records by fields and computes count, sum, avg, min, max, first, last and distinct values per group',
+      version: '1.0.0',
+      category: 'transformation',
+      icon: 'sigma',
+      inputs: [
+        {
+          name: 'data',
+          type: 'array',
+          required: true,
+          description: 'Array of objects to aggregate'
+        },
+        {
+          name: 'groupBy',
+          type: 'any',
+          required: false,
+          description: 'Field path (or array of paths) to group by; nested paths like customer.country are supported'
+        },
+        {
+          name: 'aggregations',
+          type: 'array',
+          required: true,
+          description: 'Aggregations [{ operation, field, as }] computed per group'
+        }
+      ],
+      outputs: [
+        {
+          name: 'groups',
+          type: 'array',
+          description: 'One record per group with the group fields and the aggregated values, in order of first appearance',
+          schema: {
+            type: 'array',
+            items: {
+              type: 'object',
+              additionalProperties: true
+            }
+          }
+        },
+        {
+          name: 'group_count',
+          type: 'number',
+          description: 'Number of groups'
+        }
+      ],
+      compatibilityMatrix: [
+        {
+          targetType: 'data-filter',
+          outputPin: 'groups',
+          targetInputPin: 'data',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'field-mapper',
+          outputPin: 'groups',
+          targetInputPin: 'source',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'mongodb-operations',
+          outputPin: 'groups',
+          targetInputPin: 'document',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'conditional-router',
+          outputPin: 'groups',
+          targetInputPin: 'data',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'for-each',
+          outputPin: 'groups',
+          targetInputPin: 'items',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-join',
+          outputPin: 'groups',
+          targetInputPin: 'left',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-join',
+          outputPin: 'groups',
+          targetInputPin: 'right',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-aggregate',
+          outputPin: 'groups',
+          targetInputPin: 'data',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-sort',
+          outputPin: 'groups',
+          targetInputPin: 'data',
+          compatibility: 'full'
+        }
+      ],
+      configuration: {
+        timeout: 30000,
+        retries: 2,
+        concurrency: 1,
+        idempotent: true
+      },
+      tags: ['transformation', 'aggregate', 'group-by', 'data-processing'],
+      relatedNodes: ['data-filter', 'field-mapper', 'mongodb-operations']
+    }
+  }
+
+  async execute(input: DataAggregateInput, context?: ExecutionContext): Promise<NodeResult<DataAggregateOutput>> {
+    const startTime = Date.now()
+
+    try {
+      const groupPaths = this.toPaths(input.groupBy)
+      const groups = new Map<string, Group>()
+
+      const visited = await CancellationUtils.forEachChunk(input.data, context?.signal, record => {
+        const keys = groupPaths.map(path => get(record, path) ?? null)
+        const groupKey = RecordKeys.of(keys)
+
+        let group = groups.get(groupKey)
+        if (!group) {
+          group = { keys, states: input.aggregations.map(() => this.createState()) }
+          groups.set(groupKey, group)
+        }
+
+        input.aggregations.forEach((aggregation, index) => {
+          this.accumulate(group!.states[index], aggregation, record)
+        })
+      })
+
+      if (visited < input.data.length) {
+        return CancellationUtils.cancelledResult(startTime, visited)
+      }
+
+      // Without grouping fields there is always one group, as in SQL: an empty input yields count 0
+      if (groupPaths.length === 0 && groups.size === 0) {
+        groups.set('[]', { keys: [], states: input.aggregations.map(() => this.createState()) })
+      }
+
+      const output: Record<string, any>[] = []
+      for (const group of groups.values()) {
+        const row: Record<string, any> = {}
+        groupPaths.forEach((path, index) => set(row, path, group.keys[index]))
+        input.aggregations.forEach((aggregation, index) => {
+          row[this.outputName(aggregation)] = this.result(group.states[index], aggregation.operation)
+        })
+        output.push(row)
+      }
+
+      return {
+        success: true,
+        data: {
+          groups: output,
+          group_count: output.length
+        },
+        metrics: {
+          executionTime: Date.now() - startTime,
+          recordsProcessed: input.data.length
+        }
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  validateInput(input: DataAggregateInput): ValidationResult {
+    const result = super.validateInput(input)
+    if (!result.valid) return result
+
+    const error = ValidationUtils.fieldErrors('INVALID_AGGREGATION')
+
+    const groupPaths = this.toPaths(input.groupBy)
+    if (groupPaths.some(path => typeof path !== 'string' || path === '')) {
+      return error('groupBy', 'Group fields must be non-empty strings')
+    }
+
+    const names = new Set<string>()
+    for (const aggregation of input.aggregations) {
+      if (!OPERATIONS.includes(aggregation?.operation)) {
+        return error('aggregations', `Unknown operation '${aggregation?.operation}'; expected one of ${OPERATIONS.join(', ')}`)
+      }
+      if (aggregation.operation !== 'count' && !aggregation.field) {
+        return error('aggregations', `Operation '${aggregation.operation}' requires a field`)
+      }
+
+      const name = this.outputName(aggregation)
+      if (names.has(name) || groupPaths.some(path => path.split('.')[0] === name)) {
+        return error('aggregations', `Output field '${name}' is used more than once; set a distinct 'as'`)
+      }
+      names.add(name)
+    }
+
+    return result
+  }
+
+  private createState(): AggregateState {
+    return { count: 0, sum: 0, numbers: 0, value: undefined }
+  }
+
+  private accumulate(state: AggregateState, aggregation: Aggregation, record: any): void {
+    if (aggregation.operation === 'count' && !aggregation.field) {
+      state.count++
+      return
+    }
+
+    const value = get(record, aggregation.field!)
+
+    switch (aggregation.operation) {
+      case 'count':
+        if (value !== null && value !== undefined) state.count++
+        break
+      case 'sum':
+      case 'avg': {
+        const number = this.toNumber(value)
+        if (number !== undefined) {
+          state.sum += number
+          state.numbers++
+        }
+        break
+      }
+      case 'min':
+      case 'max':
+        if (value !== null && value !== undefined &&
+          (state.value === undefined || this.compare(value, state.value) * (aggregation.operation === 'min' ? -1 : 1) > 0)) {
+          state.value = value
+        }
+        break
+      case 'first':
+        if (state.count++ === 0) state.value = value
+        break
+      case 'last':
+        state.value = value
+        break
+      case 'distinct': {
+        if (value === undefined) break
+        const key = RecordKeys.of(value)
+        if (!state.seen) {
+          state.seen = new Set()
+          state.distinct = []
+        }
+        if (!state.seen.has(key)) {
+          state.seen.add(key)
+          state.distinct!.push(value)
+        }
+        break
+      }
+    }
+  }
+
+  private result(state: AggregateState, operation: AggregateOperation): any {
+    switch (operation) {
+      case 'count':
+        return state.count
+      case 'sum':
+        return state.sum
+      case 'avg':
+        return state.numbers > 0 ? state.sum / state.numbers : null
+      case 'distinct':
+        return state.distinct || []
+      default:
+        return state.value ?? null
+    }
+  }
+
+  private outputName(aggregation: Aggregation): string {
+    if (aggregation.as) return aggregation.as
+    return aggregation.field ? `${aggregation.operation}_${aggregation.field.replace(/\./g, '_')}` : aggregation.operation
+  }
+
+  /**
+   * Drivers return NUMERIC and BIGINT columns as strings (pg) or bigints, so finite numeric strings
+   * and bigints count as numbers; anything else is skipped
+   */
+  private toNumber(value: any): number | undefined {
+    if (typeof value === 'number') return Number.isNaN(value) ? undefined : value
+    if (typeof value === 'bigint') return Number(value)
+    if (typeof value === 'string' && value.trim() !== '') {
+      const number = Number(value)
+      return Number.isFinite(number) ? number : undefined
+    }
+    return undefined
+  }
+
+  /** Numeric strings compare by value with each other and with numbers, so '10' is above '9' */
+  private compare(left: any, right: any): number {
+    const leftNumber = typeof left === 'string' || typeof right === 'string' ? this.toNumber(left) : undefined
+    const rightNumber = leftNumber === undefined ? undefined : this.toNumber(right)
+    if (leftNumber !== undefined && rightNumber !== undefined) {
+      return leftNumber - rightNumber
+    }
+    return left < right ? -1 : left > right ? 1 : 0
+  }
+
+  private toPaths(groupBy?: string | string[]): string[] {
+    if (!groupBy) return []
+    return Array.isArray(groupBy) ? groupBy : [groupBy]
+  }
+}
@@ -1,9 +1,13 @@
 import { BaseNode, NodeMetadata } from '../../base/base-node'
 import { NodeResult } from '../../interfaces/node.interface'
+import { ExecutionContext } from '../../interfaces/execution-context.interface'
+import { CancellationUtils } from '../../utils/cancellation'
+import { StreamUtils } from '../../utils/stream'
+import { ConditionEvaluator, ConditionOperator } from '../../utils/conditions'
 
 interface FilterCondition {
   field: string
-  operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'contains'
+  operator: ConditionOperator
   value: any
 }
 
@@ -77,6 +81,51 @@ export class DataFilterNode extends BaseNode<DataFilterInput, DataFilterOutput,
         {
           targetType: 'mongodb-operations',
           outputPin: 'filtered',
+          targetInputPin: 'document',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'postgresql-query',
+          outputPin: 'filtered',
+          targetInputPin: 'parameters',
+          compatibility: 'partial',
+          transformations: [
+            { from: 'filtered', to: 'parameters', function: 'firstValues' }
+          ]
+        },
+        {
+          targetType: 'conditional-router',
+          outputPin: 'filtered',
+          targetInputPin: 'data',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'for-each',
+          outputPin: 'filtered',
+          targetInputPin: 'items',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-join',
+          outputPin: 'filtered',
+          targetInputPin: 'left',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-join',
+          outputPin: 'filtered',
+          targetInputPin: 'right',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-aggregate',
+          outputPin: 'filtered',
+          targetInputPin: 'data',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-sort',
+          outputPin: 'filtered',
           targetInputPin: 'data',
           compatibility: 'full'
         }
@@ -85,37 +134,28 @@ export class DataFilterNode extends BaseNode<DataFilterInput, DataFilterOutput,
         timeout: 10000,
         retries: 2,
         concurrency: 1,
-        batchSize: 5000
+        batchSize: 5000,
+        batchInput: 'data',
+        batchMerge: { filtered: 'concat', filtered_count: 'sum' },
+        idempotent: true
       },
       tags: ['transformation', 'filter', 'data-processing'],
       relatedNodes: ['field-mapper', 'postgresql-query', 'mongodb-operations']
     }
   }
   
-  async execute(input: DataFilterInput): Promise<NodeResult<DataFilterOutput>> {
+  async execute(input: DataFilterInput, context?: ExecutionContext): Promise<NodeResult<DataFilterOutput>> {
     const startTime = Date.now()
     
     try {
-      const filtered = input.data.filter(item => {
-        return input.conditions.every(condition => {
-          const fieldValue = item[condition.field]
-          
-          switch (condition.operator) {
-            case 'equals':
-              return fieldValue === condition.value
-            case 'not_equals':
-              return fieldValue !== condition.value
-            case 'greater_than':
-              return fieldValue > condition.value
-            case 'less_than':
-              return fieldValue < condition.value
-            case 'contains':
-              return String(fieldValue).includes(String(condition.value))
-            default:
-              return false
-          }
-        })
+      const filtered: any[] = []
+      const visited = await CancellationUtils.forEachChunk(input.data, context?.signal, item => {
+        if (this.matches(item, input.conditions)) filtered.push(item)
       })
+
+      if (visited < input.data.length) {
+        return CancellationUtils.cancelledResult(startTime, visited)
+      }
       
       const executionTime = Date.now() - startTime
       
@@ -137,10 +177,25 @@ export class DataFilterNode extends BaseNode<DataFilterInput, DataFilterOutput,
       }
     }
   }
-  
-  validate(input: DataFilterInput): boolean {
-    return super.validate(input) && 
-           Array.isArray(input.data) && 
-           Array.isArray(input.conditions)
+
+  /**
+   * Yield the matching records of `records`, or of `input.data` when there is no upstream stream
+   */
+  async *executeStream(
+    input: DataFilterInput,
+    records?: AsyncIterable<any>,
+    context?: ExecutionContext
+  ): AsyncGenerator<any> {
+    for await (const item of records || StreamUtils.from(input.data || [])) {
+      CancellationUtils.throwIfCancelled(context?.signal)
+      if (this.matches(item, input.conditions)) yield item
+    }
+  }
+
+  private matches(item: any, conditions: FilterCondition[]): boolean {
+    return conditions.every(condition =>
+      ConditionEvaluator.evaluate(item[condition.field], condition.operator, condition.value)
+    )
   }
+
 }
\ No newline at end of file
@@ -0,0 +1,311 @@
+import { BaseNode, NodeMetadata } from '../../base/base-node'
+import { NodeResult } from '../../interfaces/node.interface'
+import { ExecutionContext } from '../../interfaces/execution-context.interface'
+import { ValidationResult } from '../../interfaces/validation.interface'
+import { CancellationUtils } from '../../utils/cancellation'
+import { ValidationUtils } from '../../utils/validation'
+import { RecordKeys } from '../../utils/record-keys'
+
+type JoinMode = 'inner' | 'left' | 'full' | 'concat' | 'union'
+
+interface DataJoinInput {
+  left: any[]
+  right: any[]
+  mode: JoinMode
+  /** Key path(s) in left records, e.g. `id` or `customer.id`; several paths form a composite key */
+  leftKey?: string | string[]
+  /** Key path(s) in right records; defaults to `leftKey` */
+  rightKey?: string | string[]
+  /** `merge` spreads the right record over the left one, `nested` returns `{ left, right }` */
+  output?: 'merge' | 'nested'
+}
+
+interface DataJoinOutput {
+  joined: any[]
+  joined_count: number
+}
+
+const KEYED_MODES: JoinMode[] = ['inner', 'left', 'full']
+
+export class DataJoinNode extends BaseNode<DataJoinInput, DataJoinOutput, any> {
+  readonly type = 'data-join'
+  readonly version = '1.0.0'
+  readonly category = 'transformation'
+
+  static getMetadata(): NodeMetadata {
+    return {
+      type: 'data-join',
+      name: 'Data Join',
+      description: 'Combines two record sets with inner, left or full joins on key fields, or concatenates them',
+      version: '1.0.0',
+      category: 'transformation',
+      icon: 'merge',
+      inputs: [
+        {
+          name: 'left',
+          type: 'array',
+          required: true,
+          description: 'Left record set'
+        },
+        {
+          name: 'right',
+          type: 'array',
+          required: true,
+          description: 'Right record set'
+        },
+        {
+          name: 'mode',
+          type: 'string',
+          required: true,
+          description: 'inner, left and full join on keys; concat appends right to left; union also drops duplicates',
+          defaultValue: 'inner',
+          validation: {
+            enum: ['inner', 'left', 'full', 'concat', 'union']
+          }
+        },
+        {
+          name: 'leftKey',
+          type: 'any',
+          required: false,
+          description: 'Key path (or array of paths) in left records; nested paths like customer.id are supported'
+        },
+        {
+          name: 'rightKey',
+          type: 'any',
+          required: false,
+          description: 'Key path (or array of paths) in right records; defaults to leftKey'
+        },
+        {
+          name: 'output',
+          type: 'string',
+          required: false,
+          description: 'merge: right fields override left fields in one record; nested: { left, right }',
+          defaultValue: 'merge',
+          validation: {
+            enum: ['merge', 'nested']
+          }
+        }
+      ],
+      outputs: [
+        {
+          name: 'joined',
+          type: 'array',
+          description: 'Joined records',
+          schema: {
+            type: 'array',
+            items: { type: 'object' }
+          }
+        },
+        {
+          name: 'joined_count',
+          type: 'number',
+          description: 'Number of joined records'
+        }
+      ],
+      compatibilityMatrix: [
+        {
+          targetType: 'data-filter',
+          outputPin: 'joined',
+          targetInputPin: 'data',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'field-mapper',
+          outputPin: 'joined',
+          targetInputPin: 'source',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'mongodb-operations',
+          outputPin: 'joined',
+          targetInputPin: 'document',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'conditional-router',
+          outputPin: 'joined',
+          targetInputPin: 'data',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'for-each',
+          outputPin: 'joined',
+          targetInputPin: 'items',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-join',
+          outputPin: 'joined',
+          targetInputPin: 'left',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-join',
+          outputPin: 'joined',
+          targetInputPin: 'right',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-aggregate',
+          outputPin: 'joined',
+          targetInputPin: 'data',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-sort',
+          outputPin: 'joined',
+          targetInputPin: 'data',
+          compatibility: 'full'
+        }
+      ],
+      configuration: {
+        timeout: 30000,
+        retries: 2,
+        concurrency: 1,
+        idempotent: true
+      },
+      tags: ['transformation', 'join', 'merge', 'data-processing'],
+      relatedNodes: ['postgresql-query', 'mongodb-operations', 'data-filter', 'field-mapper']
+    }
+  }
+
+  async execute(input: DataJoinInput, context?: ExecutionContext): Promise<NodeResult<DataJoinOutput>> {
+    const startTime = Date.now()
+
+    try {
+      const joined = input.mode === 'concat' || input.mode === 'union'
+        ? await this.concat(input, context?.signal)
+        : await this.hashJoin(input, context?.signal)
+
+      if (!joined) {
+        return CancellationUtils.cancelledResult(startTime)
+      }
+
+      return {
+        success: true,
+        data: {
+          joined,
+          joined_count: joined.length
+        },
+        metrics: {
+          executionTime: Date.now() - startTime,
+          recordsProcessed: input.left.length + input.right.length
+        }
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  validateInput(input: DataJoinInput): ValidationResult {
+    const result = super.validateInput(input)
+    if (!result.valid) return result
+
+    const error = ValidationUtils.fieldErrors('INVALID_JOIN')
+
+    const leftPaths = this.toPaths(input.leftKey)
+    const rightPaths = this.toPaths(input.rightKey ?? input.leftKey)
+
+    if (KEYED_MODES.includes(input.mode) && leftPaths.length === 0) {
+      return error('leftKey', `Mode '${input.mode}' requires leftKey`)
+    }
+    if ([...leftPaths, ...rightPaths].some(path => typeof path !== 'string' || path === '')) {
+      return error('leftKey', 'Key paths must be non-empty strings')
+    }
+    if (rightPaths.length !== leftPaths.length) {
+      return error('rightKey', 'leftKey and rightKey must have the same number of paths')
+    }
+
+    return result
+  }
+
+  /**
+   * Index the right side by key once, then probe it with each left record: O(left + right)
+   * instead of comparing every pair. Returns null when cancelled.
+   */
+  private async hashJoin(input: DataJoinInput, signal?: AbortSignal): Promise<any[] | null> {
+    const leftPaths = this.toPaths(input.leftKey)
+    const rightPaths = this.toPaths(input.rightKey ?? input.leftKey)
+    const index = new Map<string, number[]>()
+
+    const indexed = await CancellationUtils.forEachChunk(input.right, signal, (record, position) => {
+      const key = RecordKeys.fromPaths(record, rightPaths)
+      if (key === undefined) return
+
+      const positions = index.get(key)
+      if (positions) positions.push(position)
+      else index.set(key, [position])
+    })
+    if (indexed < input.right.length) return null
+
+    const joined: any[] = []
+    const matchedRight = new Set<number>()
+
+    const probed = await CancellationUtils.forEachChunk(input.left, signal, record => {
+      const key = RecordKeys.fromPaths(record, leftPaths)
+      const positions = key === undefined ? undefined : index.get(key)
+
+      if (positions) {
+        for (const position of positions) {
+          matchedRight.add(position)
+          joined.push(this.combine(record, input.right[position], input.output))
+        }
+      } else if (input.mode !== 'inner') {
+        joined.push(this.combine(record, undefined, input.output))
+      }
+    })
+    if (probed < input.left.length) return null
+
+    if (input.mode === 'full') {
+      input.right.forEach((record, position) => {
+        if (!matchedRight.has(position)) joined.push(this.combine(undefined, record, input.output))
+      })
+    }
+
+    return joined
+  }
+
+  /**
+   * `concat` appends right to left; `union` also drops records whose key (or whole content
+   * when no key is configured) was already seen. Returns null when cancelled.
+   */
+  private async concat(input: DataJoinInput, signal?: AbortSignal): Promise<any[] | null> {
+    const records = [...input.left, ...input.right]
+    if (input.mode === 'concat') return records
+
+    const leftPaths = this.toPaths(input.leftKey)
+    const rightPaths = this.toPaths(input.rightKey ?? input.leftKey)
+    const seen = new Set<string>()
+    const unique: any[] = []
+
+    const visited = await CancellationUtils.forEachChunk(records, signal, (record, position) => {
+      const paths = position < input.left.length ? leftPaths : rightPaths
+      const key = paths.length > 0 ? RecordKeys.fromPaths(record, paths) : RecordKeys.of(record)
+
+      // Records without a key cannot be compared, so they are all kept
+      if (key === undefined) {
+        unique.push(record)
+      } else if (!seen.has(key)) {
+        seen.add(key)
+        unique.push(record)
+      }
+    })
+
+    return visited < records.length ? null : unique
+  }
+
+  private combine(left: any, right: any, output: DataJoinInput['output']): any {
+    if (output === 'nested') {
+      return { left: left ?? null, right: right ?? null }
+    }
+    return { ...left, ...right }
+  }
+
+  private toPaths(key?: string | string[]): string[] {
+    if (!key) return []
+    return Array.isArray(key) ? key : [key]
+  }
+}
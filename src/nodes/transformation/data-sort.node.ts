@@ -0,0 +1,342 @@
+import { get } from 'lodash'
+import { BaseNode, NodeMetadata } from '../../base/base-node'
+import { NodeResult } from '../../interfaces/node.interface'
+import { ExecutionContext } from '../../interfaces/execution-context.interface'
+import { ValidationResult } from '../../interfaces/validation.interface'
+import { CancellationUtils } from '../../utils/cancellation'
+import { ValidationUtils } from '../../utils/validation'
+import { RecordKeys } from '../../utils/record-keys'
+
+interface SortField {
+  field: string
+  direction?: 'asc' | 'desc'
+  /** Where null/undefined values go, whatever the direction; defaults to `last` */
+  nulls?: 'first' | 'last'
+  /** Locale used to compare strings, e.g. `es` or `de-DE`; defaults to the runtime locale */
+  locale?: string
+}
+
+interface DataSortInput {
+  data: any[]
+  sort?: SortField[]
+  /** Key path(s) identifying duplicates; several paths form a composite key */
+  dedupeBy?: string | string[]
+  /** Which duplicate is kept, defaults to `first` */
+  keep?: 'first' | 'last'
+  offset?: number
+  limit?: number
+}
+
+interface DataSortOutput {
+  sorted: any[]
+  sorted_count: number
+  duplicates_dropped: number
+}
+
+interface SortEntry {
+  record: any
+  values: any[]
+}
+
+export class DataSortNode extends BaseNode<DataSortInput, DataSortOutput, any> {
+  readonly type = 'data-sort'
+  readonly version = '1.0.0'
+  readonly category = 'transformation'
+
+  static getMetadata(): NodeMetadata {
+    return {
+      type: 'data-sort',
+      name: 'Data Sort',
+      description: 'Sorts records by several fields, removes duplicates by key and applies offset/limit',
+      version: '1.0.0',
+      category: 'transformation',
+      icon: 'sort',
+      inputs: [
+        {
+          name: 'data',
+          type: 'array',
+          required: true,
+          description: 'Array of objects to sort'
+        },
+        {
+          name: 'sort',
+          type: 'array',
+          required: false,
+          description: 'Sort fields [{ field, direction: asc|desc, nulls: first|last, locale }], by priority'
+        },
+        {
+          name: 'dedupeBy',
+          type: 'any',
+          required: false,
+          description: 'Key path (or array of paths) identifying duplicate records'
+        },
+        {
+          name: 'keep',
+          type: 'string',
+          required: false,
+          description: 'Duplicate kept when deduplicating',
+          defaultValue: 'first',
+          validation: {
+            enum: ['first', 'last']
+          }
+        },
+        {
+          name: 'offset',
+          type: 'number',
+          required: false,
+          description: 'Records skipped after sorting',
+          defaultValue: 0,
+          validation: {
+            minimum: 0
+          }
+        },
+        {
+          name: 'limit',
+          type: 'number',
+          required: false,
+          description: 'Maximum number of records returned',
+          validation: {
+            minimum: 0
+          }
+        }
+      ],
+      outputs: [
+        {
+          name: 'sorted',
+          type: 'array',
+          description: 'Sorted, deduplicated and limited records',
+          schema: {
+            type: 'array',
+            items: { type: 'object' }
+          }
+        },
+        {
+          name: 'sorted_count',
+          type: 'number',
+          description: 'Number of records returned'
+        },
+        {
+          name: 'duplicates_dropped',
+          type: 'number',
+          description: 'Number of records removed as duplicates'
+        }
+      ],
+      compatibilityMatrix: [
+        {
+          targetType: 'data-filter',
+          outputPin: 'sorted',
+          targetInputPin: 'data',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'field-mapper',
+          outputPin: 'sorted',
+          targetInputPin: 'source',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'mongodb-operations',
+          outputPin: 'sorted',
+          targetInputPin: 'document',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'conditional-router',
+          outputPin: 'sorted',
+          targetInputPin: 'data',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'for-each',
+          outputPin: 'sorted',
+          targetInputPin: 'items',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-join',
+          outputPin: 'sorted',
+          targetInputPin: 'left',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-join',
+          outputPin: 'sorted',
+          targetInputPin: 'right',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-aggregate',
+          outputPin: 'sorted',
+          targetInputPin: 'data',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-sort',
+          outputPin: 'sorted',
+          targetInputPin: 'data',
+          compatibility: 'full'
+        }
+      ],
+      configuration: {
+        timeout: 30000,
+        retries: 2,
+        concurrency: 1,
+        idempotent: true
+      },
+      tags: ['transformation', 'sort', 'dedupe', 'limit', 'data-processing'],
+      relatedNodes: ['data-filter', 'field-mapper', 'data-aggregate']
+    }
+  }
+
+  async execute(input: DataSortInput, context?: ExecutionContext): Promise<NodeResult<DataSortOutput>> {
+    const startTime = Date.now()
+    const signal = context?.signal
+
+    try {
+      const unique = await this.dedupe(input, signal)
+      if (!unique) {
+        return CancellationUtils.cancelledResult(startTime)
+      }
+
+      const sortFields = input.sort || []
+      let records = unique
+
+      if (sortFields.length > 0) {
+        // Read every sort value once instead of on each comparison
+        const entries: SortEntry[] = []
+        const visited = await CancellationUtils.forEachChunk(unique, signal, record => {
+          entries.push({ record, values: sortFields.map(sortField => get(record, sortField.field)) })
+        })
+        if (visited < unique.length) {
+          return CancellationUtils.cancelledResult(startTime, visited)
+        }
+
+        const collators = sortFields.map(sortField => new Intl.Collator(sortField.locale))
+        entries.sort((a, b) => this.compareEntries(a, b, sortFields, collators))
+        records = entries.map(entry => entry.record)
+      }
+
+      const offset = input.offset || 0
+      const sorted = records.slice(offset, input.limit === undefined ? undefined : offset + input.limit)
+
+      return {
+        success: true,
+        data: {
+          sorted,
+          sorted_count: sorted.length,
+          duplicates_dropped: input.data.length - unique.length
+        },
+        metrics: {
+          executionTime: Date.now() - startTime,
+          recordsProcessed: input.data.length
+        }
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  validateInput(input: DataSortInput): ValidationResult {
+    const result = super.validateInput(input)
+    if (!result.valid) return result
+
+    const error = ValidationUtils.fieldErrors('INVALID_SORT')
+
+    for (const sortField of input.sort || []) {
+      if (!sortField?.field || typeof sortField.field !== 'string') {
+        return error('sort', 'Each sort entry requires a field')
+      }
+      if (sortField.direction && !['asc', 'desc'].includes(sortField.direction)) {
+        return error('sort', `Invalid direction '${sortField.direction}' for '${sortField.field}'; expected asc or desc`)
+      }
+      if (sortField.nulls && !['first', 'last'].includes(sortField.nulls)) {
+        return error('sort', `Invalid nulls placement '${sortField.nulls}' for '${sortField.field}'; expected first or last`)
+      }
+      if (sortField.locale) {
+        try {
+          new Intl.Collator(sortField.locale)
+        } catch {
+          return error('sort', `Invalid locale '${sortField.locale}' for '${sortField.field}'`)
+        }
+      }
+    }
+
+    if (this.toPaths(input.dedupeBy).some(path => typeof path !== 'string' || path === '')) {
+      return error('dedupeBy', 'Key paths must be non-empty strings')
+    }
+
+    return result
+  }
+
+  /**
+   * Drop records whose key was already seen, keeping the first or the last occurrence in its
+   * original position. Records without a key are never considered duplicates. Returns null when cancelled.
+   */
+  private async dedupe(input: DataSortInput, signal?: AbortSignal): Promise<any[] | null> {
+    const paths = this.toPaths(input.dedupeBy)
+    if (paths.length === 0) return input.data
+
+    const keys: (string | undefined)[] = []
+    const lastIndex = new Map<string, number>()
+    const visited = await CancellationUtils.forEachChunk(input.data, signal, (record, index) => {
+      const key = RecordKeys.fromPaths(record, paths)
+      keys.push(key)
+      if (key !== undefined && (input.keep === 'last' || !lastIndex.has(key))) {
+        lastIndex.set(key, index)
+      }
+    })
+    if (visited < input.data.length) return null
+
+    return input.data.filter((_, index) => keys[index] === undefined || lastIndex.get(keys[index]!) === index)
+  }
+
+  private compareEntries(a: SortEntry, b: SortEntry, sortFields: SortField[], collators: Intl.Collator[]): number {
+    for (let index = 0; index < sortFields.length; index++) {
+      const sortField = sortFields[index]
+      const left = a.values[index]
+      const right = b.values[index]
+      const leftMissing = left === null || left === undefined
+      const rightMissing = right === null || right === undefined
+
+      if (leftMissing || rightMissing) {
+        if (leftMissing && rightMissing) continue
+        // Null placement does not flip with the direction
+        return (leftMissing ? 1 : -1) * (sortField.nulls === 'first' ? -1 : 1)
+      }
+
+      const order = this.compareValues(left, right, collators[index])
+      if (order !== 0) {
+        return sortField.direction === 'desc' ? -order : order
+      }
+    }
+
+    return 0
+  }
+
+  /** Numbers, dates and booleans compare by value and strings with the collator; mixed types by type name */
+  private compareValues(left: any, right: any, collator: Intl.Collator): number {
+    if (typeof left === 'string' && typeof right === 'string') {
+      return collator.compare(left, right)
+    }
+
+    const leftValue = left instanceof Date ? left.getTime() : left
+    const rightValue = right instanceof Date ? right.getTime() : right
+
+    if (typeof leftValue !== typeof rightValue) {
+      return typeof leftValue < typeof rightValue ? -1 : 1
+    }
+    if (typeof leftValue === 'object') {
+      return collator.compare(String(leftValue), String(rightValue))
+    }
+
+    return leftValue < rightValue ? -1 : leftValue > rightValue ? 1 : 0
+  }
+
+  private toPaths(key?: string | string[]): string[] {
+    if (!key) return []
+    return Array.isArray(key) ? key : [key]
+  }
+}
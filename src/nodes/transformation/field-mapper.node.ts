@@ -1,5 +1,9 @@
+import { z } from 'zod'
 import { BaseNode, NodeMetadata } from '../../base/base-node'
 import { NodeResult } from '../../interfaces/node.interface'
+import { ExecutionContext } from '../../interfaces/execution-context.interface'
+import { CancellationUtils } from '../../utils/cancellation'
+import { StreamUtils } from '../../utils/stream'
 
 interface FieldMapping {
   sourceField: string
@@ -75,6 +79,51 @@ export class FieldMapperNode extends BaseNode<FieldMapperInput, FieldMapperOutpu
         {
           targetType: 'mongodb-operations',
           outputPin: 'mapped',
+          targetInputPin: 'document',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'postgresql-query',
+          outputPin: 'mapped',
+          targetInputPin: 'parameters',
+          compatibility: 'partial',
+          transformations: [
+            { from: 'mapped', to: 'parameters', function: 'firstValues' }
+          ]
+        },
+        {
+          targetType: 'conditional-router',
+          outputPin: 'mapped',
+          targetInputPin: 'data',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'for-each',
+          outputPin: 'mapped',
+          targetInputPin: 'items',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-join',
+          outputPin: 'mapped',
+          targetInputPin: 'left',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-join',
+          outputPin: 'mapped',
+          targetInputPin: 'right',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-aggregate',
+          outputPin: 'mapped',
+          targetInputPin: 'data',
+          compatibility: 'full'
+        },
+        {
+          targetType: 'data-sort',
+          outputPin: 'mapped',
           targetInputPin: 'data',
           compatibility: 'full'
         }
@@ -83,50 +132,31 @@ export class FieldMapperNode extends BaseNode<FieldMapperInput, FieldMapperOutpu
         timeout: 15000,
         retries: 2,
         concurrency: 1,
-        batchSize: 2000
+        batchSize: 2000,
+        batchInput: 'source',
+        batchMerge: { mapped: 'concat' },
+        idempotent: true
       },
       tags: ['transformation', 'mapping', 'field-transformation'],
       relatedNodes: ['data-filter', 'postgresql-query', 'mongodb-operations']
     }
   }
   
-  async execute(input: FieldMapperInput): Promise<NodeResult<FieldMapperOutput>> {
+  async execute(input: FieldMapperInput, context?: ExecutionContext): Promise<NodeResult<FieldMapperOutput>> {
     const startTime = Date.now()
     
     try {
       const isArray = Array.isArray(input.source)
       const sourceData = isArray ? input.source : [input.source]
       
-      const mapped = sourceData.map((item: any) => {
-        const result: any = {}
-        
-        input.mapping.forEach(mapping => {
-          const sourceValue = item[mapping.sourceField]
-          
-          switch (mapping.transformation) {
-            case 'rename':
-              result[mapping.targetField] = sourceValue
-              break
-            case 'function':
-              if (mapping.parameters?.functionBody) {
-                try {
-                  const func = new Function('value', mapping.parameters.functionBody)
-                  result[mapping.targetField] = func(sourceValue)
-                } catch {
-                  result[mapping.targetField] = sourceValue
-                }
-              } else {
-                result[mapping.targetField] = sourceValue
-              }
-              break
-            case 'constant':
-              result[mapping.targetField] = mapping.parameters?.constantValue
-              break
-          }
-        })
-        
-        return result
+      const mapped: any[] = []
+      const visited = await CancellationUtils.forEachChunk(sourceData, context?.signal, (item: any) => {
+        mapped.push(this.mapRecord(item, input.mapping))
       })
+
+      if (visited < sourceData.length) {
+        return CancellationUtils.cancelledResult(startTime, visited)
+      }
       
       const executionTime = Date.now() - startTime
       
@@ -148,9 +178,57 @@ export class FieldMapperNode extends BaseNode<FieldMapperInput, FieldMapperOutpu
     }
   }
   
-  validate(input: FieldMapperInput): boolean {
-    return super.validate(input) && 
-           (Array.isArray(input.source) || typeof input.source === 'object') &&
-           Array.isArray(input.mapping)
+  /**
+   * Yield each record of `records` (or of `input.source`) mapped
+   */
+  async *executeStream(
+    input: FieldMapperInput,
+    records?: AsyncIterable<any>,
+    context?: ExecutionContext
+  ): AsyncGenerator<any> {
+    const source = input.source === undefined ? [] : Array.isArray(input.source) ? input.source : [input.source]
+
+    for await (const item of records || StreamUtils.from(source)) {
+      CancellationUtils.throwIfCancelled(context?.signal)
+      yield this.mapRecord(item, input.mapping)
+    }
+  }
+
+  private mapRecord(item: any, mappings: FieldMapping[]): any {
+    const result: any = {}
+    
+    mappings.forEach(mapping => {
+      const sourceValue = item[mapping.sourceField]
+      
+      switch (mapping.transformation) {
+        case 'rename':
+          result[mapping.targetField] = sourceValue
+          break
+        case 'function':
+          if (mapping.parameters?.functionBody) {
+            try {
+              const func = new Function('value', mapping.parameters.functionBody)
+              result[mapping.targetField] = func(sourceValue)
+            } catch {
+              result[mapping.targetField] = sourceValue
+            }
+          } else {
+            result[mapping.targetField] = sourceValue
+          }
+          break
+        case 'constant':
+          result[mapping.targetField] = mapping.parameters?.constantValue
+          break
+      }
+    })
+    
+    return result
+  }
+  
+  protected buildInputSchema(): z.AnyZodObject | null {
+    // `source` also accepts a single object
+    return super.buildInputSchema()?.extend({
+      source: z.union([z.array(z.any()), z.record(z.any())])
+    }) || null
   }
 }
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { NodeResult } from '../interfaces/node.interface'
+
+export const CANCELLED_MESSAGE = 'Execution cancelled'
+
+/**
+ * Helpers for honouring ExecutionContext.signal inside nodes and the flow runtime
+ */
+export class CancellationUtils {
+  static isCancelled(signal?: AbortSignal): boolean {
+    return !!signal?.aborted
+  }
+
+  static throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) throw new Error(CANCELLED_MESSAGE)
+  }
+
+  static cancelledResult<T = any>(startTime: number, recordsProcessed = 0): NodeResult<T> {
+    return {
+      success: false,
+      cancelled: true,
+      error: CANCELLED_MESSAGE,
+      metrics: {
+        executionTime: Date.now() - startTime,
+        recordsProcessed
+      }
+    }
+  }
+
+  /**
+   * Run `handler` once when the signal aborts; returns a function that detaches it
+   */
+  static onAbort(signal: AbortSignal | undefined, handler: () => void): () => void {
+    if (!signal) return () => {}
+    if (signal.aborted) {
+      handler()
+      return () => {}
+    }
+
+    signal.addEventListener('abort', handler, { once: true })
+    return () => signal.removeEventListener('abort', handler)
+  }
+
+  /**
+   * Create a controller that aborts together with `parent`
+   */
+  static link(parent?: AbortSignal): { controller: AbortController; detach: () => void } {
+    const controller = new AbortController()
+    const detach = CancellationUtils.onAbort(parent, () => controller.abort())
+    return { controller, detach }
+  }
+
+  /**
+   * Reject as soon as the signal aborts, even if `promise` ignores it
+   */
+  static async race<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise
+
+    let detach = () => {}
+    const aborted = new Promise<never>((_, reject) => {
+      detach = CancellationUtils.onAbort(signal, () => reject(new Error(CANCELLED_MESSAGE)))
+    })
+
+    try {
+      return await Promise.race([promise, aborted])
+    } finally {
+      detach()
+    }
+  }
+
+  /**
+   * Resolve after `ms`, or early when the signal aborts
+   */
+  static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.resolve()
+
+    return new Promise(resolve => {
+      let detach = () => {}
+      const timer = setTimeout(() => {
+        detach()
+        resolve()
+      }, ms)
+      detach = CancellationUtils.onAbort(signal, () => {
+        clearTimeout(timer)
+        resolve()
+      })
+    })
+  }
+
+  /**
+   * Iterate records in chunks, yielding to the event loop between chunks so an abort can land.
+   * Returns the number of records visited; fewer than `items.length` means it was cancelled.
+   */
+  static async forEachChunk<T>(
+    items: T[],
+    signal: AbortSignal | undefined,
+    callback: (item: T, index: number) => void,
+    chunkSize = 1000
+  ): Promise<number> {
+    for (let start = 0; start < items.length; start += chunkSize) {
+      if (start > 0) {
+        await new Promise(resolve => setImmediate(resolve))
+      }
+      if (signal?.aborted) return start
+
+      const end = Math.min(start + chunkSize, items.length)
+      for (let index = start; index < end; index++) {
+        callback(items[index], index)
+      }
+    }
+
+    return items.length
+  }
+}
@@ -0,0 +1,38 @@
+import { get } from 'lodash'
+
+export type ConditionOperator = 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'contains'
+
+export interface Condition {
+  field: string
+  operator: ConditionOperator
+  value: any
+}
+
+/**
+ * Comparison semantics shared by DataFilterNode and CompatibilityRule conditions
+ */
+export class ConditionEvaluator {
+  static evaluate(actual: any, operator: ConditionOperator, expected: any): boolean {
+    switch (operator) {
+      case 'equals':
+        return actual === expected
+      case 'not_equals':
+        return actual !== expected
+      case 'greater_than':
+        return actual > expected
+      case 'less_than':
+        return actual < expected
+      case 'contains':
+        return String(actual).includes(String(expected))
+      default:
+        return false
+    }
+  }
+
+  /**
+   * Evaluate a condition against an object; `field` may be a dotted path
+   */
+  static matches(target: any, condition: Condition): boolean {
+    return ConditionEvaluator.evaluate(get(target, condition.field), condition.operator, condition.value)
+  }
+}
@@ -0,0 +1,204 @@
+import { isPlainObject } from 'lodash'
+
+/**
+ * Values an expression can read: `nodes.<id>` is the output of an upstream node, `inputs` the
+ * flow inputs of the execution request and `execution` metadata about the running node
+ */
+export interface ExpressionScope {
+  nodes: Record<string, any>
+  inputs: Record<string, any>
+  execution: Record<string, any>
+}
+
+export interface ExpressionIssue {
+  /** Location of the value in the node config, e.g. `parameters[0]` */
+  path: string
+  expression: string
+  message: string
+}
+
+const EXPRESSION = /\{\{([\s\S]*?)\}\}/g
+const ROOTS = ['nodes', 'inputs', 'execution']
+const IDENTIFIER = /^[A-Za-z_$][\w$-]*/
+const FORBIDDEN_SEGMENTS = ['__proto__', 'prototype', 'constructor']
+
+/**
+ * Resolves `{{ path }}` expressions in config values, e.g. `{{ nodes.pg.result[0].id }}`.
+ * Expressions are property paths only (dots, `[index]` and `["key"]`), never evaluated as code.
+ * A value that is a single expression takes the resolved value as is; expressions inside
+ * longer text are interpolated as strings.
+ */
+export class ExpressionResolver {
+  static hasExpression(value: any): boolean {
+    let found = false
+    ExpressionResolver.walk(value, '', () => {
+      found = true
+    })
+    return found
+  }
+
+  /**
+   * Returns a copy of `value` with every expression resolved.
+   * Throws when an expression is invalid or its path does not exist.
+   */
+  static resolve<T>(value: T, scope: ExpressionScope, path = ''): T {
+    if (typeof value === 'string') {
+      return ExpressionResolver.resolveText(value, scope, path) as any
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => ExpressionResolver.resolve(item, scope, `${path}[${index}]`)) as any
+    }
+    if (isPlainObject(value)) {
+      const resolved: Record<string, any> = {}
+      for (const [key, item] of Object.entries(value as Record<string, any>)) {
+        resolved[key] = ExpressionResolver.resolve(item, scope, path ? `${path}.${key}` : key)
+      }
+      return resolved as T
+    }
+    return value
+  }
+
+  /**
+   * Ids of the nodes whose output `value` refers to through `nodes.<id>`; invalid expressions are ignored
+   */
+  static references(value: any): string[] {
+    const nodeIds = new Set<string>()
+    ExpressionResolver.walk(value, '', expression => {
+      try {
+        const [root, nodeId] = ExpressionResolver.parse(expression)
+        if (root === 'nodes' && nodeId !== undefined) nodeIds.add(nodeId)
+      } catch {
+        // Reported by validate()
+      }
+    })
+    return Array.from(nodeIds)
+  }
+
+  /**
+   * Syntax problems of every expression in `value`, without resolving them
+   */
+  static validate(value: any): ExpressionIssue[] {
+    const issues: ExpressionIssue[] = []
+    ExpressionResolver.walk(value, '', (expression, path) => {
+      try {
+        ExpressionResolver.parse(expression)
+      } catch (error) {
+        issues.push({ path, expression: `{{${expression}}}`, message: (error as Error).message })
+      }
+    })
+    return issues
+  }
+
+  /**
+   * Split an expression body into path segments: `nodes.pg.result[0]` → ['nodes', 'pg', 'result', '0']
+   */
+  static parse(expression: string): string[] {
+    const source = expression.trim()
+    const segments: string[] = []
+    let rest = source
+
+    const root = IDENTIFIER.exec(rest)
+    if (!root) {
+      throw new Error(`Expected a path starting with ${ROOTS.join(', ')}`)
+    }
+    segments.push(root[0])
+    rest = rest.slice(root[0].length)
+
+    while (rest.length > 0) {
+      let match: RegExpExecArray | null
+
+      if (rest[0] === '.' && (match = IDENTIFIER.exec(rest.slice(1)))) {
+        segments.push(match[0])
+        rest = rest.slice(match[0].length + 1)
+      } else if ((match = /^\[(\d+)\]/.exec(rest))) {
+        segments.push(match[1])
+        rest = rest.slice(match[0].length)
+      } else if ((match = /^\[(?:"([^"]*)"|'([^']*)')\]/.exec(rest))) {
+        segments.push(match[1] ?? match[2])
+        rest = rest.slice(match[0].length)
+      } else {
+        throw new Error(`Unexpected '${rest}' in '${source}'; only property paths are supported`)
+      }
+    }
+
+    if (!ROOTS.includes(segments[0])) {
+      throw new Error(`Unknown root '${segments[0]}'; expressions start with ${ROOTS.join(', ')}`)
+    }
+    const forbidden = segments.find(segment => FORBIDDEN_SEGMENTS.includes(segment))
+    if (forbidden) {
+      throw new Error(`'${forbidden}' cannot be accessed`)
+    }
+
+    return segments
+  }
+
+  private static resolveText(text: string, scope: ExpressionScope, path: string): any {
+    const matches = Array.from(text.matchAll(EXPRESSION))
+    if (matches.length === 0) return text
+
+    if (matches.length === 1 && matches[0][0] === text.trim()) {
+      return ExpressionResolver.evaluate(matches[0][1], scope, path)
+    }
+
+    return text.replace(EXPRESSION, (_, expression: string) => {
+      const value = ExpressionResolver.evaluate(expression, scope, path)
+      return typeof value === 'object' && value !== null && !(value instanceof Date)
+        ? JSON.stringify(value)
+        : String(value instanceof Date ? value.toISOString() : value)
+    })
+  }
+
+  private static evaluate(expression: string, scope: ExpressionScope, path: string): any {
+    const location = path ? ` in '${path}'` : ''
+    let segments: string[]
+
+    try {
+      segments = ExpressionResolver.parse(expression)
+    } catch (error) {
+      throw new Error(`Invalid expression {{${expression}}}${location}: ${(error as Error).message}`)
+    }
+
+    let current: any = scope
+    let resolved = ''
+
+    for (const segment of segments) {
+      const exists = current !== null && current !== undefined &&
+        Object.prototype.hasOwnProperty.call(Object(current), segment)
+
+      if (!exists) {
+        const missing = resolved === 'nodes'
+          ? `node '${segment}' has no output (it has not run or was skipped)`
+          : Array.isArray(current)
+            ? `${resolved} has no item [${segment}] (length ${current.length})`
+            : `${resolved} has no '${segment}'`
+        throw new Error(`Cannot resolve {{${expression}}}${location}: ${missing}`)
+      }
+
+      current = current[segment]
+      resolved = resolved ? (/^\d+$/.test(segment) ? `${resolved}[${segment}]` : `${resolved}.${segment}`) : segment
+    }
+
+    if (current === undefined) {
+      throw new Error(`Cannot resolve {{${expression}}}${location}: ${resolved} is undefined`)
+    }
+
+    return current
+  }
+
+  /**
+   * Call `visit` with the body and config path of every expression in `value`
+   */
+  private static walk(value: any, path: string, visit: (expression: string, path: string) => void): void {
+    if (typeof value === 'string') {
+      for (const match of value.matchAll(EXPRESSION)) {
+        visit(match[1], path)
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => ExpressionResolver.walk(item, `${path}[${index}]`, visit))
+    } else if (isPlainObject(value)) {
+      for (const [key, item] of Object.entries(value)) {
+        ExpressionResolver.walk(item, path ? `${path}.${key}` : key, visit)
+      }
+    }
+  }
+}
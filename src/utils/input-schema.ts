@@ -0,0 +1,126 @@
+import { z } from 'zod'
+import { NodeInputMetadata } from '../base/base-node'
+import { ValidationError, ValidationResult } from '../interfaces/validation.interface'
+
+/**
+ * Builds zod schemas from NodeInputMetadata and converts zod failures into ValidationResults
+ */
+export class InputSchemaBuilder {
+  static build(inputs: NodeInputMetadata[]): z.ZodObject<Record<string, z.ZodTypeAny>> {
+    const shape: Record<string, z.ZodTypeAny> = {}
+
+    for (const input of inputs) {
+      const schema = InputSchemaBuilder.buildField(input)
+      shape[input.name] = input.required ? schema : schema.optional()
+    }
+
+    // Node config is merged into inputs, so unknown keys are allowed through
+    return z.object(shape).passthrough()
+  }
+
+  static buildField(input: NodeInputMetadata): z.ZodTypeAny {
+    const validation = input.validation || {}
+    let schema: z.ZodTypeAny
+
+    switch (input.type) {
+      case 'string': {
+        let field = z.string()
+        // Required strings have always been rejected when empty
+        const minLength = validation.minLength ?? (input.required ? 1 : undefined)
+        if (minLength !== undefined) field = field.min(minLength)
+        if (validation.maxLength !== undefined) field = field.max(validation.maxLength)
+        if (validation.pattern) field = field.regex(new RegExp(validation.pattern))
+        schema = field
+        break
+      }
+      case 'number': {
+        let field = z.number()
+        if (validation.minimum !== undefined) field = field.min(validation.minimum)
+        if (validation.maximum !== undefined) field = field.max(validation.maximum)
+        schema = field
+        break
+      }
+      case 'boolean':
+        schema = z.boolean()
+        break
+      case 'array': {
+        let field = z.array(z.any())
+        if (validation.minLength !== undefined) field = field.min(validation.minLength)
+        if (validation.maxLength !== undefined) field = field.max(validation.maxLength)
+        schema = field
+        break
+      }
+      case 'object':
+        schema = z.record(z.any())
+        break
+      case 'date':
+        schema = z.union([z.date(), z.string(), z.number()]).refine(
+          value => !Number.isNaN(new Date(value).getTime()),
+          { message: 'Invalid date' }
+        )
+        break
+      case 'binary':
+        schema = z.custom<Uint8Array>(value => value instanceof Uint8Array, { message: 'Expected binary data' })
+        break
+      default:
+        schema = z.any()
+    }
+
+    if (validation.enum) {
+      const allowed = validation.enum
+      schema = schema.refine(value => allowed.includes(value), {
+        message: `Must be one of: ${allowed.join(', ')}`,
+        params: { code: 'INVALID_ENUM_VALUE', allowed }
+      })
+    }
+
+    return schema
+  }
+
+  static toValidationResult(error: z.ZodError | null): ValidationResult {
+    const errors = error ? error.issues.map(issue => InputSchemaBuilder.toValidationError(issue)) : []
+    return { valid: errors.length === 0, errors, warnings: [] }
+  }
+
+  private static toValidationError(issue: z.ZodIssue): ValidationError {
+    const field = issue.path.join('.') || undefined
+    const base = { field, severity: 'error' as const }
+
+    switch (issue.code) {
+      case z.ZodIssueCode.invalid_type:
+        return issue.received === 'undefined'
+          ? { ...base, code: 'REQUIRED_INPUT_MISSING', message: `Input '${field}' is required` }
+          : {
+              ...base,
+              code: 'INVALID_TYPE',
+              message: `Input '${field}' must be ${issue.expected}, received ${issue.received}`,
+              details: { expected: issue.expected, received: issue.received }
+            }
+      case z.ZodIssueCode.too_small:
+        return {
+          ...base,
+          code: 'VALUE_TOO_SMALL',
+          message: `Input '${field}': ${issue.message}`,
+          details: { minimum: issue.minimum }
+        }
+      case z.ZodIssueCode.too_big:
+        return {
+          ...base,
+          code: 'VALUE_TOO_LARGE',
+          message: `Input '${field}': ${issue.message}`,
+          details: { maximum: issue.maximum }
+        }
+      case z.ZodIssueCode.invalid_string:
+        return { ...base, code: 'PATTERN_MISMATCH', message: `Input '${field}' does not match the required pattern` }
+      case z.ZodIssueCode.custom:
+        return {
+          ...base,
+          code: issue.params?.code || 'INVALID_VALUE',
+          message: `Input '${field}': ${issue.message}`,
+          details: issue.params
+        }
+      default:
+        return { ...base, code: 'INVALID_INPUT', message: `Input '${field}': ${issue.message}` }
+    }
+  }
+}
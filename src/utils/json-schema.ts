@@ -0,0 +1,129 @@
+import { isUndefined, omitBy } from 'lodash'
+import { NodeConfigurationMetadata, NodeInputMetadata, NodeOutputMetadata } from '../base/base-node'
+
+export type JsonSchema = Record<string, any>
+
+/** Dialect of the schemas JsonSchemaBuilder produces */
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema'
+
+/**
+ * Converts node pin and configuration metadata into JSON Schema, e.g. to render forms.
+ * Input schemas accept the same values as InputSchemaBuilder's zod schemas where JSON Schema can
+ * express them: dates are ISO strings and binary values base64 strings.
+ */
+export class JsonSchemaBuilder {
+  /**
+   * Object schema of a node's inputs; unknown keys are allowed since node config is merged into inputs
+   */
+  static fromInputs(inputs: NodeInputMetadata[]): JsonSchema {
+    const properties: Record<string, JsonSchema> = {}
+    for (const input of inputs) {
+      properties[input.name] = JsonSchemaBuilder.fromInput(input)
+    }
+
+    const required = inputs.filter(input => input.required).map(input => input.name)
+    return omitBy({
+      type: 'object',
+      properties,
+      required: required.length > 0 ? required : undefined,
+      additionalProperties: true
+    }, isUndefined)
+  }
+
+  static fromInput(input: NodeInputMetadata): JsonSchema {
+    const validation = input.validation || {}
+    let schema: JsonSchema
+
+    switch (input.type) {
+      case 'string':
+        schema = {
+          type: 'string',
+          // Required strings are rejected when empty, as in InputSchemaBuilder
+          minLength: validation.minLength ?? (input.required ? 1 : undefined),
+          maxLength: validation.maxLength,
+          pattern: validation.pattern
+        }
+        break
+      case 'number':
+        schema = { type: 'number', minimum: validation.minimum, maximum: validation.maximum }
+        break
+      case 'array':
+        schema = { type: 'array', minItems: validation.minLength, maxItems: validation.maxLength }
+        break
+      case 'date':
+        schema = { type: 'string', format: 'date-time' }
+        break
+      case 'binary':
+        schema = { type: 'string', contentEncoding: 'base64' }
+        break
+      case 'boolean':
+      case 'object':
+        schema = { type: input.type }
+        break
+      default:
+        schema = {}
+    }
+
+    return omitBy({
+      // The structural schema adds items/properties; the declared type and validation take precedence
+      ...input.schema,
+      ...schema,
+      enum: validation.enum,
+      default: input.defaultValue,
+      description: input.description
+    }, isUndefined)
+  }
+
+  /**
+   * Object schema of a node's outputs, i.e. of NodeResult.data
+   */
+  static fromOutputs(outputs: NodeOutputMetadata[]): JsonSchema {
+    const properties: Record<string, JsonSchema> = {}
+    for (const output of outputs) {
+      properties[output.name] = JsonSchemaBuilder.fromOutput(output)
+    }
+    return { type: 'object', properties }
+  }
+
+  static fromOutput(output: NodeOutputMetadata): JsonSchema {
+    const schema = output.schema || JsonSchemaBuilder.fromInput({ ...output, required: false })
+    return omitBy({ ...schema, description: output.description }, isUndefined)
+  }
+
+  /**
+   * Execution settings with the node's declared values as defaults; batchSize only for nodes that declare it
+   */
+  static fromConfiguration(configuration: NodeConfigurationMetadata = {}): JsonSchema {
+    const properties: Record<string, JsonSchema> = {
+      timeout: omitBy({
+        type: 'integer',
+        minimum: 1,
+        default: configuration.timeout,
+        description: 'Milliseconds before an attempt is aborted'
+      }, isUndefined),
+      retries: omitBy({
+        type: 'integer',
+        minimum: 0,
+        default: configuration.retries,
+        description: 'Attempts after the first one when the failure is transient'
+      }, isUndefined),
+      concurrency: omitBy({
+        type: 'integer',
+        minimum: 1,
+        default: configuration.concurrency,
+        description: 'Nodes of this type running at the same time'
+      }, isUndefined)
+    }
+
+    if (configuration.batchSize !== undefined || configuration.batchInput) {
+      properties.batchSize = omitBy({
+        type: 'integer',
+        minimum: 1,
+        default: configuration.batchSize,
+        description: 'Records processed per batch'
+      }, isUndefined)
+    }
+
+    return { type: 'object', properties, additionalProperties: false }
+  }
+}
@@ -0,0 +1,43 @@
+import { get } from 'lodash'
+
+/**
+ * String keys comparing values by content, for hash-based grouping, joining and de-duplication.
+ * Dates compare by instant, ObjectIds by hex string and objects by their entries whatever the key order.
+ * Strings, bigints, Dates and ObjectIds are tagged with their type, so `'1'` and `1n` get different keys.
+ */
+export class RecordKeys {
+  static of(value: any): string {
+    return JSON.stringify(RecordKeys.normalize(value))
+  }
+
+  /**
+   * Key of the values at `paths`; undefined when any of them is null/undefined, since such records
+   * never match or count as duplicates
+   */
+  static fromPaths(record: any, paths: string[]): string | undefined {
+    const values: any[] = []
+
+    for (const path of paths) {
+      const value = get(record, path)
+      if (value === null || value === undefined) return undefined
+      values.push(value)
+    }
+
+    return RecordKeys.of(values)
+  }
+
+  private static normalize(value: any): any {
+    if (typeof value === 'string') return `s:${value}`
+    if (typeof value === 'bigint') return `b:${value}`
+    if (value instanceof Date) return `d:${isNaN(value.getTime()) ? 'invalid' : value.toISOString()}`
+    if (value === null || typeof value !== 'object') return value
+    if (typeof value.toHexString === 'function') return `o:${value.toHexString()}`
+    if (Array.isArray(value)) return value.map(RecordKeys.normalize)
+
+    const normalized: Record<string, any> = {}
+    for (const key of Object.keys(value).sort()) {
+      normalized[key] = RecordKeys.normalize(value[key])
+    }
+    return normalized
+  }
+}
@@ -0,0 +1,72 @@
+import * as semver from 'semver'
+
+export interface SemVer {
+  major: number
+  minor: number
+  patch: number
+  prerelease: (string | number)[]
+}
+
+/**
+ * Semantic versioning (semver.org) over the `semver` package, with npm's range syntax:
+ * exact versions, comparators (`>=1.2.0 <2.0.0`), `^`, `~`, x-ranges (`1.x`, `*`),
+ * hyphen ranges (`1.0.0 - 1.4.0`) and `||` alternatives.
+ * Prereleases only satisfy a range that names a prerelease of the same major.minor.patch.
+ */
+export class SemverUtils {
+  static parse(version: string): SemVer | null {
+    const parsed = semver.parse(version)
+    return parsed
+      ? { major: parsed.major, minor: parsed.minor, patch: parsed.patch, prerelease: [...parsed.prerelease] }
+      : null
+  }
+
+  static valid(version: string): boolean {
+    return semver.valid(version) !== null
+  }
+
+  /**
+   * Loose version strings such as `1`, `v2.1` or `3.0.0.1` as a valid version, or null when they contain no number
+   */
+  static coerce(version: string): string | null {
+    return semver.valid(version) ?? semver.coerce(version)?.version ?? null
+  }
+
+  static format(version: SemVer): string {
+    const core = `${version.major}.${version.minor}.${version.patch}`
+    return version.prerelease.length > 0 ? `${core}-${version.prerelease.join('.')}` : core
+  }
+
+  /**
+   * Negative when `a` precedes `b`, positive when it follows and 0 when they are equal (build metadata is ignored)
+   */
+  static compare(a: string | SemVer, b: string | SemVer): number {
+    const toString = (version: string | SemVer): string => (typeof version === 'string' ? version : SemverUtils.format(version))
+    return semver.compare(toString(a), toString(b))
+  }
+
+  static validRange(range: string): boolean {
+    return typeof range === 'string' && semver.validRange(range) !== null
+  }
+
+  /**
+   * Whether `version` is in `range`; throws when the range is invalid and returns false for invalid versions
+   */
+  static satisfies(version: string, range: string): boolean {
+    if (!SemverUtils.validRange(range)) {
+      throw new Error(`Invalid version range '${range}'`)
+    }
+    return semver.satisfies(version, range)
+  }
+
+  /**
+   * Highest of `versions` in `range`, or null when none is
+   */
+  static maxSatisfying(versions: string[], range: string): string | null {
+    return semver.maxSatisfying(versions, range)
+  }
+
+  static sort(versions: string[]): string[] {
+    return [...versions].sort((a, b) => semver.compare(a, b))
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Helpers for the async iterables consumed and produced by INode.executeStream()
+ */
+export class StreamUtils {
+  /**
+   * Group records into arrays of at most `size` records; only one chunk is buffered at a time
+   */
+  static async *chunk<T>(source: AsyncIterable<T> | Iterable<T>, size: number): AsyncGenerator<T[]> {
+    if (size < 1) throw new Error(`Chunk size must be at least 1, got ${size}`)
+
+    let chunk: T[] = []
+    for await (const record of source) {
+      chunk.push(record)
+      if (chunk.length >= size) {
+        yield chunk
+        chunk = []
+      }
+    }
+
+    if (chunk.length > 0) yield chunk
+  }
+
+  static async *from<T>(source: AsyncIterable<T> | Iterable<T>): AsyncGenerator<T> {
+    for await (const record of source) {
+      yield record
+    }
+  }
+
+  /**
+   * Materialise a stream; meant for tests and small results only
+   */
+  static async collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+    const records: T[] = []
+    for await (const record of source) {
+      records.push(record)
+    }
+    return records
+  }
+}
@@ -1,3 +1,5 @@
+import { ValidationResult, ValidationWarning } from '../interfaces/validation.interface'
+
 export class ValidationUtils {
   static isValidEmail(email: string): boolean {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
@@ -21,4 +23,19 @@ export class ValidationUtils {
       return false
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Builder of single-error ValidationResults sharing an error code, for node validateInput() checks:
+   * `const error = ValidationUtils.fieldErrors('INVALID_JOIN')` then `return error('leftKey', '...')`
+   */
+  static fieldErrors(
+    code: string,
+    warnings: ValidationWarning[] = []
+  ): (field: string, message: string) => ValidationResult {
+    return (field, message) => ({
+      valid: false,
+      errors: [{ code, message, field, severity: 'error' }],
+      warnings
+    })
+  }
+}
@@ -1,44 +1,182 @@
-import { CompatibilityLevel } from '../interfaces/compatibility.interface'
+import {
+  CompatibilityLevel,
+  CompatibilityRule,
+  CompatibilityValidationResult,
+  WILDCARD_PIN
+} from '../interfaces/compatibility.interface'
+import { NodeRegistry } from '../base/node-registry'
+import { createDefaultRegistry } from '../nodes/default-registry'
+import { ConditionEvaluator } from '../utils/conditions'
+import { SchemaCompatibilityChecker, SchemaCompatibilityResult } from './schema-compatibility'
 
+export interface CompatibilityEndpoint {
+  type: string
+  /** Semver range of the node version; the latest registered version when omitted */
+  version?: string
+  pin?: string
+  /** Node configuration used to evaluate rule conditions */
+  config?: Record<string, any>
+}
+
+export interface ConnectionCompatibilityResult extends CompatibilityValidationResult {
+  rule?: CompatibilityRule
+}
+
+const LEVEL_RANK: Record<CompatibilityLevel, number> = {
+  full: 3,
+  partial: 2,
+  conditional: 1,
+  none: 0
+}
+
+/**
+ * Resolves compatibility from the `compatibilityMatrix` each registered node declares in
+ * `getMetadata()`, so third-party nodes participate without editing this file.
+ * Static helpers use a registry containing the built-in nodes.
+ */
 export class CompatibilityValidator {
+  private static builtIn: CompatibilityValidator | null = null
+
+  constructor(private readonly registry: NodeRegistry = createDefaultRegistry()) {}
+
   static check(sourceType: string, targetType: string): { level: CompatibilityLevel; valid: boolean } {
-    // Comprehensive compatibility matrix including MongoDB operations
-    const matrix: Record<string, Record<string, CompatibilityLevel>> = {
-      // PostgreSQL Query Node compatibility
-      'postgresql-query': {
-        'data-filter': 'full',
-        'field-mapper': 'full',
-        'mongodb-operations': 'partial' // result → document for inserts
-      },
-      
-      // MongoDB Operations Node compatibility
-      'mongodb-operations': {
-        'data-filter': 'full',        // result → data
-        'field-mapper': 'full',       // result → source
-        'postgresql-query': 'partial', // documents → query parameters
-        'mongodb-operations': 'full'   // chaining MongoDB operations
-      },
-      
-      // Data Filter Node compatibility
-      'data-filter': {
-        'field-mapper': 'full',
-        'mongodb-operations': 'full',  // filtered → document/query
-        'postgresql-query': 'partial'  // filtered → parameters
-      },
-      
-      // Field Mapper Node compatibility
-      'field-mapper': {
-        'mongodb-operations': 'full',  // mapped → document/query
-        'postgresql-query': 'partial', // mapped → parameters
-        'data-filter': 'full'         // mapped → data
+    const { level, valid } = CompatibilityValidator.getBuiltIn().checkConnection(
+      { type: sourceType },
+      { type: targetType }
+    )
+    return { level, valid }
+  }
+
+  /**
+   * Rules declared by the source node type, optionally narrowed to a target type
+   */
+  getRules(sourceType: string, targetType?: string, sourceVersion?: string): CompatibilityRule[] {
+    const metadata = this.registry.getNodeMetadata(sourceType, sourceVersion)
+    const rules = metadata?.compatibilityMatrix || []
+    return targetType ? rules.filter(rule => rule.targetType === targetType) : rules
+  }
+
+  /**
+   * Check a connection between two nodes. When pins are given only the rule for that exact
+   * outputPin/targetInputPin pair applies (a `*` outputPin matches any source pin); otherwise
+   * the best rule between the types wins.
+   * Rules whose conditions fail against the endpoint configs are discarded.
+   */
+  checkConnection(source: CompatibilityEndpoint, target: CompatibilityEndpoint): ConnectionCompatibilityResult {
+    const sourceLabel = source.pin ? `${source.type}.${source.pin}` : source.type
+    const targetLabel = target.pin ? `${target.type}.${target.pin}` : target.type
+
+    if (!this.registry.getNodeMetadata(source.type, source.version)) {
+      const version = source.version ? ` version '${source.version}'` : ''
+      return { level: 'none', valid: false, message: `Node type '${source.type}'${version} is not registered` }
+    }
+
+    const candidates = this.getRules(source.type, target.type, source.version).filter(rule =>
+      (!source.pin || rule.outputPin === source.pin || rule.outputPin === WILDCARD_PIN) &&
+      (!target.pin || rule.targetInputPin === target.pin)
+    )
+
+    if (candidates.length === 0) {
+      return {
+        level: 'none',
+        valid: false,
+        message: `No compatibility rule found between ${sourceLabel} and ${targetLabel}`
       }
     }
-    
-    const level = matrix[sourceType]?.[targetType] || 'none'
+
+    const warnings: string[] = []
+    const failures: string[] = []
+    const rules = candidates.filter(rule => {
+      const evaluation = this.evaluateConditions(rule, source, target)
+      if (evaluation.unevaluated) {
+        warnings.push(
+          `Conditions for ${source.type}.${rule.outputPin} → ${target.type}.${rule.targetInputPin} ` +
+          'could not be evaluated without node configuration'
+        )
+      }
+      failures.push(...evaluation.failed)
+      return evaluation.failed.length === 0
+    })
+
+    if (rules.length === 0) {
+      return {
+        level: 'none',
+        valid: false,
+        message: `Conditions not met between ${sourceLabel} and ${targetLabel}: ${failures.join('; ')}`
+      }
+    }
+
+    const rule = rules.reduce((best, candidate) =>
+      LEVEL_RANK[candidate.compatibility] > LEVEL_RANK[best.compatibility] ? candidate : best
+    )
+
     return {
-      level,
-      valid: level !== 'none'
+      level: rule.compatibility,
+      valid: rule.compatibility !== 'none',
+      message: `${source.type}.${rule.outputPin} → ${target.type}.${rule.targetInputPin} is ${rule.compatibility}`,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      transformationRequired: (rule.transformations?.length || 0) > 0,
+      rule
+    }
+  }
+
+  /**
+   * Structural check of the output pin schema against the input pin type and validation rules.
+   * Explicit schemas override the ones declared in metadata; returns null when a pin is unknown.
+   */
+  checkPinSchemas(
+    source: CompatibilityEndpoint & { schema?: Record<string, any> },
+    target: CompatibilityEndpoint & { schema?: Record<string, any> }
+  ): SchemaCompatibilityResult | null {
+    if (source.schema && target.schema) {
+      return SchemaCompatibilityChecker.checkSchemas(source.schema, target.schema)
+    }
+
+    const outputs = this.registry.getNodeMetadata(source.type, source.version)?.outputs || []
+    const output = outputs.find(o => o.name === source.pin) || outputs.find(o => o.name === WILDCARD_PIN)
+    const input = this.registry.getNodeMetadata(target.type, target.version)?.inputs.find(i => i.name === target.pin)
+    if (!output || !input) return null
+
+    return SchemaCompatibilityChecker.checkPins(
+      source.schema ? { ...output, schema: source.schema } : output,
+      target.schema ? { ...input, schema: target.schema } : input
+    )
+  }
+
+  /**
+   * Conditions referencing an endpoint without config are reported as unevaluated, not failed
+   */
+  private evaluateConditions(
+    rule: CompatibilityRule,
+    source: CompatibilityEndpoint,
+    target: CompatibilityEndpoint
+  ): { failed: string[]; unevaluated: boolean } {
+    const configs = { source: source.config, target: target.config }
+    const failed: string[] = []
+    let unevaluated = false
+
+    for (const condition of rule.conditions || []) {
+      const field = /^(source|target)\./.test(condition.field) ? condition.field : `source.${condition.field}`
+      const endpoint = field.startsWith('target.') ? target : source
+
+      if (!endpoint.config) {
+        unevaluated = true
+        continue
+      }
+
+      if (!ConditionEvaluator.matches(configs, { ...condition, field })) {
+        failed.push(`${field} ${condition.operator} ${JSON.stringify(condition.value)}`)
+      }
     }
+
+    return { failed, unevaluated }
+  }
+
+  private static getBuiltIn(): CompatibilityValidator {
+    if (!CompatibilityValidator.builtIn) {
+      CompatibilityValidator.builtIn = new CompatibilityValidator()
+    }
+    return CompatibilityValidator.builtIn
   }
   
   /**
@@ -52,7 +190,7 @@ export class CompatibilityValidator {
       'mongodb-operations': {
         'data-filter': 'MongoDB query results can be filtered using data-filter node',
         'field-mapper': 'MongoDB documents can be field-mapped for transformation',
-        'postgresql-query': 'MongoDB results can be used as parameters for PostgreSQL queries (with transformation)',
+        'postgresql-query': 'MongoDB results can be used as parameters for PostgreSQL queries (first document with transformation, every document through for-each)',
         'mongodb-operations': 'MongoDB operations can be chained (e.g., find → update, aggregate → insert)'
       },
       'data-filter': {
@@ -76,27 +214,37 @@ export class CompatibilityValidator {
     compatible: boolean;
     issues?: Array<{ severity: 'error' | 'warning' | 'info'; message: string }>;
   }> {
-    const basicCheck = CompatibilityValidator.check(source.type, target.type)
+    return CompatibilityValidator.getBuiltIn().validateCompatibilityInstance(source, target)
+  }
+
+  /**
+   * Instance method for validate compatibility (for instances of the class)
+   */
+  async validateCompatibilityInstance(
+    source: { type: string; pin: string; schema?: any },
+    target: { type: string; pin: string; schema?: any }
+  ): Promise<{
+    compatible: boolean;
+    issues?: Array<{ severity: 'error' | 'warning' | 'info'; message: string }>;
+  }> {
+    const basicCheck = this.checkConnection(source, target)
     
     const issues: Array<{ severity: 'error' | 'warning' | 'info'; message: string }> = []
     
     if (!basicCheck.valid) {
       issues.push({
         severity: 'error',
-        message: `No compatibility rule found between ${source.type} and ${target.type}`
+        message: basicCheck.message!
       })
     }
     
     // Schema compatibility checks
-    if (source.schema && target.schema) {
-      if (source.schema.type !== target.schema.type && 
-          source.schema.type !== 'any' && 
-          target.schema.type !== 'any') {
-        issues.push({
-          severity: 'warning',
-          message: `Schema type mismatch: source outputs '${source.schema.type}' but target expects '${target.schema.type}'`
-        })
-      }
+    const schemaCheck = this.checkPinSchemas(source, target)
+    for (const issue of schemaCheck?.issues || []) {
+      issues.push({
+        severity: issue.severity,
+        message: issue.path === '$' ? issue.message : `${issue.path}: ${issue.message}`
+      })
     }
     
     return {
@@ -104,17 +252,4 @@ export class CompatibilityValidator {
       issues
     }
   }
-
-  /**
-   * Instance method for validate compatibility (for instances of the class)
-   */
-  async validateCompatibilityInstance(
-    source: { type: string; pin: string; schema?: any },
-    target: { type: string; pin: string; schema?: any }
-  ): Promise<{
-    compatible: boolean;
-    issues?: Array<{ severity: 'error' | 'warning' | 'info'; message: string }>;
-  }> {
-    return CompatibilityValidator.validateCompatibility(source, target)
-  }
 }
\ No newline at end of file
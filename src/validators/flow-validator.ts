@@ -0,0 +1,311 @@
+import { NodeRegistry } from '../base/node-registry'
+import { NodeMetadata } from '../base/base-node'
+import { FlowConnection, FlowDefinition, FlowNodeDefinition } from '../interfaces/flow.interface'
+import { WILDCARD_PIN } from '../interfaces/compatibility.interface'
+import {
+  FlowValidationResult,
+  ValidationError,
+  ValidationWarning
+} from '../interfaces/validation.interface'
+import { FlowGraph } from '../execution/flow-graph'
+import { ExpressionResolver } from '../utils/expressions'
+import { SemverUtils } from '../utils/semver'
+import { CompatibilityValidator } from './compatibility-validator'
+
+type CompatibilityIssue = NonNullable<FlowValidationResult['compatibilityIssues']>[number]
+
+/**
+ * Static validation of a whole flow definition before it is sent for execution
+ */
+export class FlowValidator {
+  static readonly VERSION = '1.0.0'
+
+  private readonly compatibility: CompatibilityValidator
+
+  constructor(private readonly registry: NodeRegistry) {
+    this.compatibility = new CompatibilityValidator(registry)
+  }
+
+  validate(flow: FlowDefinition, flowId?: string): FlowValidationResult {
+    const errors: ValidationError[] = []
+    const warnings: ValidationWarning[] = []
+    const compatibilityIssues: CompatibilityIssue[] = []
+
+    const graph = new FlowGraph(flow, {
+      deferredInputs: node => this.registry.getNodeMetadata(node.type, node.version)?.configuration?.deferredInputs || []
+    })
+    const metadata = new Map<string, NodeMetadata | null>()
+
+    for (const nodeId of graph.duplicateNodeIds) {
+      errors.push({
+        code: 'DUPLICATE_NODE_ID',
+        message: `Node id '${nodeId}' is used more than once`,
+        nodeId,
+        severity: 'critical'
+      })
+    }
+
+    for (const connection of graph.danglingConnections) {
+      const missing = graph.getNode(connection.sourceId) ? connection.targetId : connection.sourceId
+      errors.push({
+        code: 'DANGLING_CONNECTION',
+        message: `Connection ${connection.sourceId} → ${connection.targetId} references unknown node '${missing}'`,
+        nodeId: missing,
+        severity: 'critical',
+        details: { ...connection }
+      })
+    }
+
+    for (const reference of graph.danglingReferences) {
+      errors.push({
+        code: 'UNKNOWN_NODE_REFERENCE',
+        message: `Node '${reference.nodeId}' refers to unknown node '${reference.referencedId}' in an expression`,
+        nodeId: reference.nodeId,
+        severity: 'error',
+        details: { ...reference }
+      })
+    }
+
+    for (const node of graph.getNodes()) {
+      for (const issue of ExpressionResolver.validate(graph.getExpressionConfig(node.id))) {
+        errors.push({
+          code: 'INVALID_EXPRESSION',
+          message: `Invalid expression ${issue.expression} in node '${node.id}': ${issue.message}`,
+          nodeId: node.id,
+          field: issue.path,
+          severity: 'error'
+        })
+      }
+    }
+
+    const cycle = graph.findCycle()
+    if (cycle) {
+      errors.push({
+        code: 'FLOW_CYCLE',
+        message: `Flow contains a cycle: ${cycle.join(' → ')}`,
+        nodeId: cycle[0],
+        severity: 'critical',
+        details: { cycle }
+      })
+    }
+
+    for (const node of graph.getNodes()) {
+      const nodeMetadata = this.registry.getNodeMetadata(node.type, node.version)
+      metadata.set(node.id, nodeMetadata)
+
+      if (!nodeMetadata) {
+        errors.push(this.registry.getVersions(node.type).length > 0
+          ? {
+              code: 'UNKNOWN_NODE_VERSION',
+              message: this.unknownVersionMessage(node),
+              nodeId: node.id,
+              field: 'version',
+              severity: 'error'
+            }
+          : {
+              code: 'UNKNOWN_NODE_TYPE',
+              message: `Node type '${node.type}' is not registered`,
+              nodeId: node.id,
+              field: 'type',
+              severity: 'error'
+            })
+        continue
+      }
+
+      if (nodeMetadata.deprecated) {
+        const { message, replacedBy } = nodeMetadata.deprecated
+        warnings.push({
+          code: 'DEPRECATED_NODE_VERSION',
+          message: `Node '${node.id}' uses deprecated ${node.type}@${nodeMetadata.version}${message ? `: ${message}` : ''}`,
+          nodeId: node.id,
+          field: 'version',
+          suggestion: replacedBy ? `Migrate to ${replacedBy}` : undefined
+        })
+      }
+
+      this.validateRequiredInputs(node, nodeMetadata, graph, errors, warnings)
+    }
+
+    for (const node of graph.getNodes()) {
+      for (const connection of graph.getOutgoing(node.id)) {
+        const source = metadata.get(connection.sourceId)
+        const target = metadata.get(connection.targetId)
+        if (!source || !target) continue
+
+        if (connection.sourcePort && source.outputs.length > 0 &&
+            !source.outputs.some(output => output.name === connection.sourcePort || output.name === WILDCARD_PIN)) {
+          errors.push({
+            code: 'UNKNOWN_OUTPUT_PIN',
+            message: `Node '${connection.sourceId}' (${source.type}) has no output '${connection.sourcePort}'`,
+            nodeId: connection.sourceId,
+            field: connection.sourcePort,
+            severity: 'error'
+          })
+        }
+
+        if (connection.targetPort && target.inputs.length > 0 &&
+            !target.inputs.some(input => input.name === connection.targetPort)) {
+          errors.push({
+            code: 'UNKNOWN_INPUT_PIN',
+            message: `Node '${connection.targetId}' (${target.type}) has no input '${connection.targetPort}'`,
+            nodeId: connection.targetId,
+            field: connection.targetPort,
+            severity: 'error'
+          })
+        }
+
+        const compatibility = this.compatibility.checkConnection(
+          { type: source.type, version: source.version, pin: connection.sourcePort, config: graph.getNode(connection.sourceId)!.config },
+          { type: target.type, version: target.version, pin: connection.targetPort, config: graph.getNode(connection.targetId)!.config }
+        )
+
+        compatibilityIssues.push({
+          sourceNodeId: connection.sourceId,
+          targetNodeId: connection.targetId,
+          level: compatibility.level,
+          valid: compatibility.valid,
+          message: compatibility.message
+        })
+
+        if (!compatibility.valid) {
+          errors.push({
+            code: 'INCOMPATIBLE_NODES',
+            message: compatibility.message!,
+            nodeId: connection.targetId,
+            severity: 'error',
+            details: { sourceNodeId: connection.sourceId, targetNodeId: connection.targetId }
+          })
+        } else if (compatibility.level !== 'full') {
+          warnings.push({
+            code: 'PARTIAL_COMPATIBILITY',
+            message: `Connection ${connection.sourceId} → ${connection.targetId} is ${compatibility.level}ly compatible`,
+            nodeId: connection.targetId,
+            suggestion: compatibility.transformationRequired
+              ? 'Data is transformed automatically by the rule\'s declared transformations'
+              : 'Verify the upstream output matches what the target input expects'
+          })
+        }
+
+        this.validateSchemas(connection, source, target, errors, warnings)
+
+        for (const warning of compatibility.warnings || []) {
+          warnings.push({
+            code: 'UNEVALUATED_CONDITIONS',
+            message: warning,
+            nodeId: connection.targetId
+          })
+        }
+      }
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+      flowId,
+      compatibilityIssues,
+      metadata: {
+        validatedAt: new Date().toISOString(),
+        validatorVersion: FlowValidator.VERSION,
+        totalNodes: flow.nodes.length,
+        totalConnections: flow.connections.length
+      }
+    }
+  }
+
+  /**
+   * Why a registered node type has no metadata for the version a node asks for
+   */
+  private unknownVersionMessage(node: FlowNodeDefinition): string {
+    const available = this.registry.getVersions(node.type).join(', ')
+
+    if (!node.version) {
+      return `No default version of node type '${node.type}' is available for node '${node.id}' (registered: ${available})`
+    }
+    if (!SemverUtils.validRange(node.version)) {
+      return `Invalid version range '${node.version}' for node '${node.id}'`
+    }
+    return `No version of node type '${node.type}' matches '${node.version}' (available: ${available})`
+  }
+
+  private validateSchemas(
+    connection: FlowConnection,
+    source: NodeMetadata,
+    target: NodeMetadata,
+    errors: ValidationError[],
+    warnings: ValidationWarning[]
+  ): void {
+    if (!connection.sourcePort || !connection.targetPort) return
+
+    const schemaCheck = this.compatibility.checkPinSchemas(
+      { type: source.type, version: source.version, pin: connection.sourcePort },
+      { type: target.type, version: target.version, pin: connection.targetPort }
+    )
+    const edge = `${connection.sourceId}.${connection.sourcePort} → ${connection.targetId}.${connection.targetPort}`
+
+    for (const issue of schemaCheck?.issues || []) {
+      if (issue.severity === 'error') {
+        errors.push({
+          code: 'SCHEMA_MISMATCH',
+          message: `${edge}: ${issue.message}`,
+          nodeId: connection.targetId,
+          field: connection.targetPort,
+          severity: 'error',
+          details: { path: issue.path, expected: issue.expected, actual: issue.actual }
+        })
+      } else if (issue.severity === 'warning') {
+        warnings.push({
+          code: 'SCHEMA_WARNING',
+          message: `${edge}: ${issue.message}`,
+          nodeId: connection.targetId,
+          field: connection.targetPort
+        })
+      }
+    }
+  }
+
+  /**
+   * A required input is satisfied by node config, a default value or a wired connection.
+   * Connections without a target port may supply any input, so gaps there are only warned about.
+   */
+  private validateRequiredInputs(
+    node: FlowNodeDefinition,
+    metadata: NodeMetadata,
+    graph: FlowGraph,
+    errors: ValidationError[],
+    warnings: ValidationWarning[]
+  ): void {
+    const incoming = graph.getIncoming(node.id)
+    const wiredPorts = new Set(incoming.map(c => c.targetPort).filter(Boolean))
+    const hasUntargetedConnection = incoming.some(c => !c.targetPort)
+
+    for (const input of metadata.inputs) {
+      if (!input.required) continue
+
+      const satisfied =
+        (node.config && node.config[input.name] !== undefined) ||
+        input.defaultValue !== undefined ||
+        wiredPorts.has(input.name)
+
+      if (satisfied) continue
+
+      if (hasUntargetedConnection) {
+        warnings.push({
+          code: 'UNVERIFIED_REQUIRED_INPUT',
+          message: `Required input '${input.name}' of node '${node.id}' is not configured and may not be supplied upstream`,
+          nodeId: node.id,
+          field: input.name,
+          suggestion: `Set 'targetPort' on the incoming connection or configure '${input.name}'`
+        })
+      } else {
+        errors.push({
+          code: 'MISSING_REQUIRED_INPUT',
+          message: `Required input '${input.name}' of node '${node.id}' is neither configured nor connected`,
+          nodeId: node.id,
+          field: input.name,
+          severity: 'error'
+        })
+      }
+    }
+  }
+}
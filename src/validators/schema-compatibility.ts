@@ -0,0 +1,212 @@
+import { NodeInputMetadata, NodeOutputMetadata } from '../base/base-node'
+
+export type SchemaIssueSeverity = 'error' | 'warning' | 'info'
+
+export interface SchemaIssue {
+  /** JSONPath-like location relative to the pin value, e.g. `$`, `$[]`, `$.address.city` */
+  path: string
+  severity: SchemaIssueSeverity
+  message: string
+  expected?: any
+  actual?: any
+}
+
+export interface SchemaCompatibilityResult {
+  compatible: boolean
+  issues: SchemaIssue[]
+}
+
+/**
+ * Type pairs that can cross a connection but deserve a warning. Lists reaching an `object` input
+ * are common (e.g. `insertMany` documents) so they are not treated as errors.
+ */
+const COERCIBLE: Record<string, string[]> = {
+  string: ['number', 'boolean', 'date'],
+  date: ['string', 'number'],
+  object: ['array'],
+  array: ['object']
+}
+
+/**
+ * Structural comparison between an output pin's schema and the input pin it feeds
+ */
+export class SchemaCompatibilityChecker {
+  static checkPins(output: NodeOutputMetadata, input: NodeInputMetadata): SchemaCompatibilityResult {
+    const issues: SchemaIssue[] = []
+    const outputSchema = output.schema || { type: output.type }
+    const inputSchema = { ...(input.schema || {}), type: input.schema?.type || input.type }
+
+    SchemaCompatibilityChecker.compare(outputSchema, inputSchema, '$', issues)
+    SchemaCompatibilityChecker.compareValidation(outputSchema, input.validation, issues)
+
+    return SchemaCompatibilityChecker.toResult(issues)
+  }
+
+  static checkSchemas(outputSchema: Record<string, any>, inputSchema: Record<string, any>): SchemaCompatibilityResult {
+    const issues: SchemaIssue[] = []
+    SchemaCompatibilityChecker.compare(outputSchema, inputSchema, '$', issues)
+    return SchemaCompatibilityChecker.toResult(issues)
+  }
+
+  private static compare(
+    output: Record<string, any>,
+    input: Record<string, any>,
+    path: string,
+    issues: SchemaIssue[]
+  ): void {
+    const actual = SchemaCompatibilityChecker.normalizeType(output.type)
+    const expected = SchemaCompatibilityChecker.normalizeType(input.type)
+
+    if (actual === 'any' || expected === 'any') return
+
+    if (actual !== expected) {
+      const coercible = COERCIBLE[expected]?.includes(actual)
+      issues.push({
+        path,
+        severity: coercible ? 'warning' : 'error',
+        message: coercible
+          ? `'${actual}' is passed where '${expected}' is expected and relies on the target accepting it`
+          : `Type mismatch: '${actual}' cannot be used where '${expected}' is expected`,
+        expected,
+        actual
+      })
+      return
+    }
+
+    if (actual === 'array' && output.items && input.items) {
+      SchemaCompatibilityChecker.compare(output.items, input.items, `${path}[]`, issues)
+    }
+
+    if (actual === 'object' && input.properties) {
+      SchemaCompatibilityChecker.compareProperties(output, input, path, issues)
+    }
+  }
+
+  private static compareProperties(
+    output: Record<string, any>,
+    input: Record<string, any>,
+    path: string,
+    issues: SchemaIssue[]
+  ): void {
+    const outputProperties: Record<string, any> = output.properties || {}
+    const required: string[] = input.required || []
+
+    for (const [name, propertySchema] of Object.entries<Record<string, any>>(input.properties)) {
+      const propertyPath = `${path}.${name}`
+
+      if (!(name in outputProperties)) {
+        if (!required.includes(name)) continue
+        issues.push({
+          path: propertyPath,
+          severity: output.properties ? 'error' : 'info',
+          message: output.properties
+            ? `Required property '${name}' is not produced by the source`
+            : `Required property '${name}' cannot be verified because the source does not declare its properties`
+        })
+        continue
+      }
+
+      SchemaCompatibilityChecker.compare(outputProperties[name], propertySchema, propertyPath, issues)
+    }
+  }
+
+  /**
+   * Compare NodeInputMetadata.validation rules with constraints declared on the output schema
+   */
+  private static compareValidation(
+    output: Record<string, any>,
+    validation: NodeInputMetadata['validation'],
+    issues: SchemaIssue[]
+  ): void {
+    if (!validation) return
+
+    if (validation.enum) {
+      if (!output.enum) {
+        issues.push({
+          path: '$',
+          severity: 'info',
+          message: 'Target restricts values to an enum that the source schema does not declare',
+          expected: validation.enum
+        })
+      } else {
+        const unexpected = output.enum.filter((value: any) => !validation.enum!.includes(value))
+        if (unexpected.length > 0) {
+          issues.push({
+            path: '$',
+            severity: 'error',
+            message: `Source may produce values outside the allowed enum: ${unexpected.join(', ')}`,
+            expected: validation.enum,
+            actual: output.enum
+          })
+        }
+      }
+    }
+
+    if (validation.minimum !== undefined &&
+        (output.minimum === undefined || output.minimum < validation.minimum)) {
+      issues.push({
+        path: '$',
+        severity: 'warning',
+        message: `Source values may be below the minimum of ${validation.minimum}`,
+        expected: validation.minimum,
+        actual: output.minimum
+      })
+    }
+
+    if (validation.maximum !== undefined &&
+        (output.maximum === undefined || output.maximum > validation.maximum)) {
+      issues.push({
+        path: '$',
+        severity: 'warning',
+        message: `Source values may exceed the maximum of ${validation.maximum}`,
+        expected: validation.maximum,
+        actual: output.maximum
+      })
+    }
+
+    const minLength = output.type === 'array' ? output.minItems : output.minLength
+    if (validation.minLength !== undefined && (minLength === undefined || minLength < validation.minLength)) {
+      issues.push({
+        path: '$',
+        severity: 'warning',
+        message: `Source values may be shorter than the minimum length of ${validation.minLength}`,
+        expected: validation.minLength,
+        actual: minLength
+      })
+    }
+
+    const maxLength = output.type === 'array' ? output.maxItems : output.maxLength
+    if (validation.maxLength !== undefined && (maxLength === undefined || maxLength > validation.maxLength)) {
+      issues.push({
+        path: '$',
+        severity: 'warning',
+        message: `Source values may be longer than the maximum length of ${validation.maxLength}`,
+        expected: validation.maxLength,
+        actual: maxLength
+      })
+    }
+
+    if (validation.pattern && output.pattern !== validation.pattern) {
+      issues.push({
+        path: '$',
+        severity: 'info',
+        message: `Target requires values matching /${validation.pattern}/, which is only checked at runtime`,
+        expected: validation.pattern,
+        actual: output.pattern
+      })
+    }
+  }
+
+  private static normalizeType(type: any): string {
+    if (type === undefined || type === null) return 'any'
+    if (type === 'integer') return 'number'
+    return String(type)
+  }
+
+  private static toResult(issues: SchemaIssue[]): SchemaCompatibilityResult {
+    return {
+      compatible: !issues.some(issue => issue.severity === 'error'),
+      issues
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { NodeRegistry } from '../../src/base/node-registry'
+import { NODE_CATALOG_VERSION, NodeCatalogBuilder } from '../../src/base/node-catalog'
+import { INode, NodeResult } from '../../src/interfaces/node.interface'
+import { JSON_SCHEMA_DIALECT } from '../../src/utils/json-schema'
+import { createDefaultRegistry } from '../../src/nodes/default-registry'
+
+class LookupNode implements INode {
+  readonly type = 'lookup'
+  readonly version = '1.0.0'
+  readonly category = 'external-api'
+
+  static getMetadata(): any {
+    return {
+      type: 'lookup',
+      name: 'Lookup',
+      description: 'Looks up a record',
+      version: '1.0.0',
+      category: 'external-api',
+      tags: ['http'],
+      inputs: [{ name: 'id', type: 'string', required: true, description: 'Record id' }],
+      outputs: [{ name: 'record', type: 'object', description: 'Record found' }],
+      configuration: { timeout: 1000 },
+      deprecated: { since: '1.0.0', message: 'Use lookup 2' },
+      documentation: { examples: [] }
+    }
+  }
+
+  async execute(): Promise<NodeResult> {
+    return { success: true }
+  }
+
+  validate = () => true
+  getConfig = () => ({})
+}
+
+function createRegistry(): NodeRegistry {
+  const registry = new NodeRegistry()
+  registry.register(LookupNode, 'lookup', { version: '1.0.0' })
+  registry.register(LookupNode, 'lookup', { version: '2.0.0' })
+  registry.register(LookupNode, 'aaa-lookup', { version: '1.0.0' })
+  return registry
+}
+
+describe('NodeCatalogBuilder', () => {
+  let registry: NodeRegistry
+
+  beforeAll(() => {
+    registry = createRegistry()
+  })
+
+  it('lists the latest version of each type, sorted by type', () => {
+    const catalog = registry.getCatalog()
+
+    expect(catalog.catalogVersion).toBe(NODE_CATALOG_VERSION)
+    expect(catalog.schemaDialect).toBe(JSON_SCHEMA_DIALECT)
+    expect(catalog.nodes.map(entry => [entry.type, entry.version, entry.latest])).toEqual([
+      ['aaa-lookup', '1.0.0', true],
+      ['lookup', '2.0.0', true]
+    ])
+  })
+
+  it('lists every version when asked to', () => {
+    expect(registry.getCatalog({ allVersions: true }).nodes.map(entry => [entry.type, entry.version, entry.latest]))
+      .toEqual([
+        ['aaa-lookup', '1.0.0', true],
+        ['lookup', '1.0.0', false],
+        ['lookup', '2.0.0', true]
+      ])
+  })
+
+  it('builds entries with pin names, schemas and optional documentation', () => {
+    const entry = NodeCatalogBuilder.buildEntry('lookup', '1.0.0', true, LookupNode.getMetadata())
+
+    expect(entry).toMatchObject({
+      name: 'Lookup',
+      tags: ['http'],
+      relatedNodes: [],
+      inputs: ['id'],
+      outputs: ['record'],
+      deprecated: { message: 'Use lookup 2' },
+      documentation: { examples: [] },
+      inputSchema: { properties: { id: { type: 'string', minLength: 1 } }, required: ['id'] },
+      outputSchema: { properties: { record: { type: 'object' } } },
+      configurationSchema: { properties: { timeout: { default: 1000 } } }
+    })
+    expect(entry).not.toHaveProperty('icon')
+    expect(NodeCatalogBuilder.buildEntry('lookup', '1.0.0', true, LookupNode.getMetadata(), { includeDocumentation: false }))
+      .not.toHaveProperty('documentation')
+  })
+
+  it('produces the same JSON for the same registrations', () => {
+    expect(JSON.stringify(createRegistry().getCatalog())).toBe(JSON.stringify(registry.getCatalog()))
+  })
+
+  it('describes every built-in node', () => {
+    const catalog = createDefaultRegistry().getCatalog()
+
+    expect(catalog.nodes).toHaveLength(createDefaultRegistry().getAvailableTypes().length)
+    for (const entry of catalog.nodes) {
+      expect(entry.inputSchema.type).toBe('object')
+      expect(Object.keys(entry.inputSchema.properties)).toEqual(entry.inputs)
+      expect(Object.keys(entry.outputSchema.properties)).toEqual(entry.outputs)
+    }
+  })
+
+  it('accepts catalogs of the same major format version', () => {
+    expect(NodeCatalogBuilder.isCompatible('1.4.0')).toBe(true)
+    expect(NodeCatalogBuilder.isCompatible('2.0.0')).toBe(false)
+    expect(NodeCatalogBuilder.isCompatible('latest')).toBe(false)
+  })
+})
@@ -0,0 +1,45 @@
+import { NodeRegistry } from '../../src/base/node-registry'
+import { INode, NodeResult } from '../../src/interfaces/node.interface'
+import { FieldMapperNode } from '../../src/nodes/transformation/field-mapper.node'
+
+class PlainNode implements INode {
+  readonly type = 'plain'
+  readonly version = '2'
+  readonly category = 'transformation'
+
+  async execute(): Promise<NodeResult> {
+    return { success: true }
+  }
+
+  validate = () => true
+  getConfig = () => ({})
+}
+
+describe('NodeRegistry', () => {
+  it('flags classes without getMetadata() in their registration instead of logging', () => {
+    const registry = new NodeRegistry()
+    const warn = jest.spyOn(console, 'warn')
+    warn.mockClear()
+
+    const plain = registry.register(PlainNode, 'plain')
+    const mapper = registry.registerNode(FieldMapperNode)
+
+    expect(plain).toMatchObject({ type: 'plain', version: '2.0.0', generatedMetadata: true })
+    expect(mapper.generatedMetadata).toBeUndefined()
+    expect(registry.getRegistrations().filter(registration => registration.generatedMetadata).map(r => r.type))
+      .toEqual(['plain'])
+    expect(warn).not.toHaveBeenCalled()
+  })
+
+  it('resolves ranges to the highest matching version', () => {
+    const registry = new NodeRegistry()
+    for (const version of ['1.0.0', '1.3.0', '2.0.0-beta.1']) {
+      registry.register(PlainNode, 'plain', { version })
+    }
+
+    expect(registry.resolveVersion('plain')).toBe('1.3.0')
+    expect(registry.resolveVersion('plain', '~1.0.0')).toBe('1.0.0')
+    expect(registry.resolveVersion('plain', '^2.0.0-beta.0')).toBe('2.0.0-beta.1')
+    expect(() => registry.resolve('plain', 'bad range')).toThrow("Invalid version range 'bad range'")
+  })
+})
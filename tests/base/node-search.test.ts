@@ -0,0 +1,39 @@
+import { NodeRegistry } from '../../src/base/node-registry'
+import { NodeMetadata } from '../../src/base/base-node'
+import { NodeSearch } from '../../src/base/node-search'
+import { INode, NodeResult } from '../../src/interfaces/node.interface'
+
+function nodeClass(type: string, tags: string[]): new (config: any) => INode {
+  return class implements INode {
+    readonly type = type
+    readonly version = '1.0.0'
+    readonly category = 'database'
+
+    static getMetadata(): NodeMetadata {
+      return { type, name: type, description: '', version: '1.0.0', category: 'database', inputs: [], outputs: [], tags }
+    }
+
+    async execute(): Promise<NodeResult> {
+      return { success: true }
+    }
+
+    validate = () => true
+    getConfig = () => ({})
+  }
+}
+
+describe('NodeSearch', () => {
+  it('counts tags case-insensitively, as findByTag matches them', () => {
+    const registry = new NodeRegistry()
+    registry.registerNode(nodeClass('pg', ['SQL', 'Database']))
+    registry.registerNode(nodeClass('mysql', ['sql', 'sql']))
+    const search = new NodeSearch(registry)
+
+    const { tags } = search.getFacets()
+
+    expect(tags).toEqual({ sql: 2, database: 1 })
+    for (const [tag, count] of Object.entries(tags)) {
+      expect(search.findByTag(tag)).toHaveLength(count)
+    }
+  })
+})
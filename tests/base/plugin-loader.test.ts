@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { NodeRegistry } from '../../src/base/node-registry'
+import { PluginLoader } from '../../src/base/plugin-loader'
+
+const NODE_CLASS = (className: string, type: string, declared: string, actual = declared) => `
+class ${className} {
+  constructor(config) { this.type = '${type}'; this.version = '${actual}'; this.category = 'transformation'; this.config = config }
+  static getMetadata() {
+    return { type: '${type}', name: '${className}', description: '', version: '${declared}', category: 'transformation', inputs: [], outputs: [] }
+  }
+  async execute() { return { success: true } }
+  validate() { return true }
+  getConfig() { return this.config }
+}
+exports.${className} = ${className}
+`
+
+describe('PluginLoader', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'node-plugins-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  async function writePlugin(name: string, source: string, nodes?: any[]): Promise<string> {
+    const root = path.join(directory, name)
+    await fs.mkdir(root)
+    await fs.writeFile(path.join(root, 'index.js'), source)
+    await fs.writeFile(
+      path.join(root, 'flow-plugin.json'),
+      JSON.stringify({ name, main: 'index.js', coreVersion: '^1.0.0', nodes })
+    )
+    return root
+  }
+
+  it('registers nodes under the type and version of their metadata', async () => {
+    const registry = new NodeRegistry()
+    const root = await writePlugin('geo', NODE_CLASS('GeocodeNode', 'geocode', '1.2.0'))
+
+    const plugin = await new PluginLoader(registry, { coreVersion: '1.0.3' }).load(root)
+
+    expect(plugin.nodes).toEqual([{ type: 'geocode', version: '1.2.0' }])
+    expect(registry.resolveVersion('geocode')).toBe('1.2.0')
+  })
+
+  it('rejects manifest entries that disagree with getMetadata()', async () => {
+    const registry = new NodeRegistry()
+    const root = await writePlugin('geo', NODE_CLASS('GeocodeNode', 'geocode', '1.2.0'), [
+      { export: 'GeocodeNode', type: 'postgresql-query', version: '9.0.0' }
+    ])
+
+    await expect(new PluginLoader(registry, { coreVersion: '1.0.3' }).load(root))
+      .rejects.toThrow("'GeocodeNode' is listed as type 'postgresql-query' but getMetadata() declares 'geocode'")
+    expect(registry.getAvailableTypes()).toEqual([])
+  })
+
+  it('rejects classes whose instances disagree with their metadata', async () => {
+    const registry = new NodeRegistry()
+    const root = await writePlugin('geo', NODE_CLASS('GeocodeNode', 'geocode', '1.2.0', '1.0.0'))
+
+    await expect(new PluginLoader(registry, { coreVersion: '1.0.3' }).load(root))
+      .rejects.toThrow("declares version '1.2.0' in getMetadata() but its instances have version '1.0.0'")
+    expect(registry.getAvailableTypes()).toEqual([])
+  })
+})
@@ -0,0 +1,94 @@
+import { NodeRegistry } from '../../src/base/node-registry'
+import { BatchExecutor } from '../../src/execution/batch-executor'
+import { FlowExecutor } from '../../src/execution/flow-executor'
+import { INode, NodeResult } from '../../src/interfaces/node.interface'
+
+const batches: any[][] = []
+
+class InsertNode implements INode {
+  readonly type = 'test-batch-insert'
+  readonly version = '1.0.0'
+  readonly category = 'database'
+
+  static getMetadata(): any {
+    return {
+      type: 'test-batch-insert',
+      version: '1.0.0',
+      configuration: {
+        batchSize: 2,
+        batchInput: 'documents',
+        batchMerge: { insertedIds: 'offsetKeys', insertedCount: 'sum', schemaVersion: 'first' }
+      }
+    }
+  }
+
+  async execute(input: any): Promise<NodeResult> {
+    batches.push(input.documents)
+    const insertedIds = Object.fromEntries(input.documents.map((document: any, index: number) => [index, document.id]))
+    return {
+      success: true,
+      data: { insertedIds, insertedCount: input.documents.length, schemaVersion: 3, port: 5432 }
+    }
+  }
+
+  validate = () => true
+  getConfig = () => ({})
+}
+
+beforeEach(() => {
+  batches.length = 0
+})
+
+describe('BatchExecutor.mergeData', () => {
+  it('merges only the declared pins, with their strategy', () => {
+    const merged = BatchExecutor.mergeData(
+      [
+        { rows: [1, 2], count: 2, port: 5432, ids: { 0: 'a', 1: 'b' } },
+        { rows: [3], count: 1, port: 5432, ids: { 0: 'c' } }
+      ],
+      [0, 2],
+      { rows: 'concat', count: 'sum', ids: 'offsetKeys' }
+    )
+
+    expect(merged).toEqual({ rows: [1, 2, 3], count: 3, ids: { 0: 'a', 1: 'b', 2: 'c' } })
+  })
+
+  it('applies the wildcard strategy to pins created at runtime', () => {
+    // Parsed so `__proto__` is a case name rather than the prototype
+    const merged = BatchExecutor.mergeData(
+      JSON.parse('[{ "gold": [1], "__proto__": [2] }, { "gold": [3], "silver": [4] }]'),
+      [0, 2],
+      { '*': 'concat' }
+    )
+
+    expect(Object.keys(merged)).toEqual(['gold', '__proto__', 'silver'])
+    expect(merged.gold).toEqual([1, 3])
+    expect(merged['__proto__']).toEqual([2])
+    expect(merged.silver).toEqual([4])
+  })
+})
+
+describe('FlowExecutor batching', () => {
+  it('splits the batch input and merges the outputs the node declares', async () => {
+    const registry = new NodeRegistry()
+    registry.register(InsertNode, 'test-batch-insert')
+    const documents = [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }, { id: 'e' }]
+
+    const execution = await new FlowExecutor(registry, { policy: { retries: 0 } }).execute({
+      flowId: 'f',
+      flowData: {
+        name: 'test',
+        version: 1,
+        nodes: [{ id: 'insert', type: 'test-batch-insert', config: { documents } }],
+        connections: []
+      }
+    })
+
+    expect(batches.map(batch => batch.length)).toEqual([2, 2, 1])
+    expect(execution.results.insert.data).toEqual({
+      insertedIds: { 0: 'a', 1: 'b', 2: 'c', 3: 'd', 4: 'e' },
+      insertedCount: 5,
+      schemaVersion: 3
+    })
+  })
+})
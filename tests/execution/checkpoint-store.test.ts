@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { ExecutionCheckpoint, FileSystemCheckpointStore } from '../../src/execution/checkpoint-store'
+
+const checkpoint: ExecutionCheckpoint = {
+  executionId: 'run/1',
+  flowId: 'orders',
+  flowData: { name: 'orders', version: 1, nodes: [], connections: [] },
+  inputs: { since: '2024-01-01' },
+  status: 'running',
+  startedAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+}
+
+describe('FileSystemCheckpointStore', () => {
+  let directory: string
+  let store: FileSystemCheckpointStore
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoints-'))
+    store = new FileSystemCheckpointStore(directory)
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('round-trips executions and node results through JSON files', async () => {
+    await store.saveExecution(checkpoint)
+    await store.saveNodeResult('run/1', 'loop.write', { success: true, data: { at: new Date('2024-02-01T00:00:00Z') } })
+    await store.saveNodeResult('run/1', 'check', { success: false, error: 'boom' })
+
+    expect(await store.getExecution('run/1')).toEqual(checkpoint)
+    expect(await store.getNodeResults('run/1')).toEqual({
+      check: { success: false, error: 'boom' },
+      'loop.write': { success: true, data: { at: '2024-02-01T00:00:00.000Z' } }
+    })
+    expect(await fs.readdir(directory)).toEqual(['run%2F1'])
+    expect(await fs.readdir(path.join(directory, 'run%2F1', 'nodes'))).toEqual(['check.json', 'loop.write.json'])
+  })
+
+  it('overwrites a node result saved again', async () => {
+    await store.saveNodeResult('run/1', 'write', { success: true, data: 1 })
+    await store.saveNodeResult('run/1', 'write', { success: true, data: 2, compensated: true })
+
+    expect(await store.getNodeResults('run/1')).toEqual({ write: { success: true, data: 2, compensated: true } })
+  })
+
+  it('treats unknown and deleted executions as empty', async () => {
+    expect(await store.getExecution('missing')).toBeNull()
+    expect(await store.getNodeResults('missing')).toEqual({})
+
+    await store.saveExecution(checkpoint)
+    await store.deleteExecution('run/1')
+
+    expect(await store.getExecution('run/1')).toBeNull()
+    expect(await fs.readdir(directory)).toEqual([])
+  })
+
+  it('rejects execution ids that would escape its directory', async () => {
+    await expect(store.getExecution('..')).rejects.toThrow("Invalid execution id '..'")
+  })
+})
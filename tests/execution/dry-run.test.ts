@@ -0,0 +1,75 @@
+import { DryRunExecutor } from '../../src/execution/dry-run'
+import { createDefaultRegistry } from '../../src/nodes/default-registry'
+import { FlowDefinition } from '../../src/interfaces/flow.interface'
+
+function flow(nodes: FlowDefinition['nodes'], connections: FlowDefinition['connections'] = []): FlowDefinition {
+  return { name: 'test', version: 1, nodes, connections }
+}
+
+describe('DryRunExecutor', () => {
+  it('does not validate the input of mocked nodes', async () => {
+    const preview = await new DryRunExecutor(createDefaultRegistry()).execute(
+      {
+        flowId: 'f',
+        flowData: flow([{ id: 'orders', type: 'postgresql-query', config: { query: 'SELECT * FROM orders' } }])
+      },
+      { mocks: { orders: { data: { result: [{ id: 1 }], rowCount: 1 } } } }
+    )
+
+    expect(preview.status).toBe('completed')
+    expect(preview.results.orders.data).toEqual({ result: [{ id: 1 }], rowCount: 1 })
+    expect(preview.trace).toMatchObject([{ nodeId: 'orders', mocked: true, source: 'mock' }])
+  })
+
+  it('still validates the input of nodes that run for real', async () => {
+    const preview = await new DryRunExecutor(createDefaultRegistry()).execute({
+      flowId: 'f',
+      flowData: flow([{ id: 'filter', type: 'data-filter', config: { data: 'not records' } }])
+    })
+
+    expect(preview.status).toBe('failed')
+    expect(preview.results.filter.error).toMatch(/Invalid input for node 'filter' \(data-filter\)/)
+    expect(preview.trace).toMatchObject([{ nodeId: 'filter', mocked: false }])
+  })
+
+  it('mocks for-each sub-flow nodes by id', async () => {
+    const preview = await new DryRunExecutor(createDefaultRegistry()).execute(
+      {
+        flowId: 'f',
+        flowData: flow([
+          {
+            id: 'loop',
+            type: 'for-each',
+            config: {
+              items: [{ id: 1 }, { id: 2 }],
+              flow: {
+                name: 'inner',
+                version: 1,
+                nodes: [{ id: 'lookup', type: 'postgresql-query', config: { query: 'SELECT * FROM orders WHERE id = $1' } }],
+                connections: []
+              },
+              bindings: { 'lookup.parameters[0]': 'id' }
+            }
+          }
+        ])
+      },
+      {
+        mocks: {
+          'loop.lookup': { data: { result: [{ total: 5 }], rowCount: 1 } },
+          'loop[1].lookup': { data: { result: [{ total: 7 }], rowCount: 1 } }
+        }
+      }
+    )
+
+    expect(preview.status).toBe('completed')
+    expect(preview.results.loop.data.results).toEqual([
+      { lookup: { result: [{ total: 5 }], rowCount: 1 } },
+      { lookup: { result: [{ total: 7 }], rowCount: 1 } }
+    ])
+    expect(preview.trace.map(entry => [entry.nodeId, entry.source])).toEqual([
+      ['loop[0].lookup', 'mock'],
+      ['loop[1].lookup', 'mock'],
+      ['loop', undefined]
+    ])
+  })
+})
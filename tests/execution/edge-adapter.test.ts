@@ -0,0 +1,106 @@
+import { NodeRegistry } from '../../src/base/node-registry'
+import { EdgeAdapter } from '../../src/execution/edge-adapter'
+import { FlowExecutor } from '../../src/execution/flow-executor'
+import { INode, NodeResult } from '../../src/interfaces/node.interface'
+
+describe('EdgeAdapter', () => {
+  const adapter = new EdgeAdapter()
+
+  it('runs the built-in functions with their arguments', () => {
+    const rows = [{ _id: 'x', id: 1, name: 'Ana' }, { _id: 'y', id: 2, name: 'Luis' }]
+
+    expect(adapter.transform('toArray', 1)).toEqual([1])
+    expect(adapter.transform('toArray', null)).toEqual([])
+    expect(adapter.transform('first', rows)).toBe(rows[0])
+    expect(adapter.transform('last', rows)).toBe(rows[1])
+    expect(adapter.transform('firstValues', rows)).toEqual([1, 'Ana'])
+    expect(adapter.transform('pluck(id)', rows)).toEqual([1, 2])
+    expect(adapter.transform('omit(_id, name)', rows)).toEqual([{ id: 1 }, { id: 2 }])
+    expect(adapter.transform('parseJson', adapter.transform('stringify', { a: 1 }))).toEqual({ a: 1 })
+  })
+
+  it('rejects unknown functions and malformed expressions', () => {
+    expect(() => adapter.transform('shout', 'x')).toThrow("Unknown transformation function 'shout'")
+    expect(() => adapter.transform('pluck(id', [])).toThrow("Invalid transformation expression 'pluck(id'")
+  })
+
+  it('writes each transformed value to its target path', () => {
+    const custom = new EdgeAdapter()
+    custom.registerFunction('double', value => value * 2)
+
+    expect(custom.hasFunction('double')).toBe(true)
+    expect(custom.apply(
+      [
+        { from: 'result', to: 'parameters', function: 'firstValues' },
+        { from: 'rowCount', to: 'options.limit', function: 'double' }
+      ],
+      { result: [{ id: 7 }], rowCount: 2 },
+      { query: 'q' }
+    )).toEqual({ query: 'q', parameters: [7], options: { limit: 4 } })
+  })
+})
+
+class SourceNode implements INode {
+  readonly type = 'test-rows'
+  readonly version = '1.0.0'
+  readonly category = 'database'
+
+  static getMetadata(): any {
+    return {
+      type: 'test-rows',
+      version: '1.0.0',
+      compatibilityMatrix: [
+        {
+          targetType: 'test-params',
+          outputPin: 'result',
+          targetInputPin: 'parameters',
+          compatibility: 'partial',
+          transformations: [{ from: 'result', to: 'parameters', function: 'pluck(id)' }]
+        }
+      ]
+    }
+  }
+
+  async execute(): Promise<NodeResult> {
+    return { success: true, data: { result: [{ id: 1 }, { id: 2 }] } }
+  }
+
+  validate = () => true
+  getConfig = () => ({})
+}
+
+class ParamsNode implements INode {
+  readonly type = 'test-params'
+  readonly version = '1.0.0'
+  readonly category = 'database'
+
+  async execute(input: any): Promise<NodeResult> {
+    return { success: true, data: input }
+  }
+
+  validate = () => true
+  getConfig = () => ({})
+}
+
+describe('FlowExecutor transformations', () => {
+  it('applies the transformations of the rule matching a connection', async () => {
+    const registry = new NodeRegistry()
+    registry.register(SourceNode, 'test-rows')
+    registry.register(ParamsNode, 'test-params')
+
+    const execution = await new FlowExecutor(registry, { policy: { retries: 0 } }).execute({
+      flowId: 'f',
+      flowData: {
+        name: 'test',
+        version: 1,
+        nodes: [
+          { id: 'rows', type: 'test-rows', config: {} },
+          { id: 'query', type: 'test-params', config: { query: 'SELECT 1' } }
+        ],
+        connections: [{ sourceId: 'rows', targetId: 'query', sourcePort: 'result', targetPort: 'parameters' }]
+      }
+    })
+
+    expect(execution.results.query.data).toEqual({ query: 'SELECT 1', parameters: [1, 2] })
+  })
+})
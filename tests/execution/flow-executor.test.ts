@@ -0,0 +1,332 @@
+import { NodeRegistry } from '../../src/base/node-registry'
+import { FlowExecutor } from '../../src/execution/flow-executor'
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { FileSystemCheckpointStore, InMemoryCheckpointStore } from '../../src/execution/checkpoint-store'
+import { FlowDefinition } from '../../src/interfaces/flow.interface'
+import { ExecutionContext } from '../../src/interfaces/execution-context.interface'
+import { INode, NodeResult } from '../../src/interfaces/node.interface'
+import { CancellationUtils } from '../../src/utils/cancellation'
+
+const compensated: { nodeId: string; rollbackData: any; context: ExecutionContext }[] = []
+
+class WriteNode implements INode {
+  readonly type = 'test-write'
+  readonly version = '1.0.0'
+  readonly category = 'database'
+
+  constructor(private readonly config: any = {}) {}
+
+  async execute(input: any): Promise<NodeResult> {
+    return { success: true, data: { id: input.id }, rollbackData: { id: input.id } }
+  }
+
+  async compensate(rollbackData: any, context: ExecutionContext): Promise<NodeResult<void>> {
+    compensated.push({ nodeId: context.nodeId, rollbackData, context })
+    return { success: true }
+  }
+
+  validate = () => true
+  getConfig = () => this.config
+}
+
+let failing = true
+
+class FailNode implements INode {
+  readonly type = 'test-fail'
+  readonly version = '1.0.0'
+  readonly category = 'logic'
+
+  async execute(): Promise<NodeResult> {
+    return failing ? { success: false, error: 'boom' } : { success: true, data: {} }
+  }
+
+  validate = () => true
+  getConfig = () => ({})
+}
+
+class EchoNode implements INode {
+  readonly type = 'test-echo'
+  readonly version = '1.0.0'
+  readonly category = 'transformation'
+
+  async execute(input: any): Promise<NodeResult> {
+    return { success: true, data: input }
+  }
+
+  validate = () => true
+  getConfig = () => ({})
+}
+
+let waiting: () => void = () => {}
+
+class WaitNode implements INode {
+  readonly type = 'test-wait'
+  readonly version = '1.0.0'
+  readonly category = 'external-api'
+
+  async execute(_input: any, context: ExecutionContext): Promise<NodeResult> {
+    const startTime = Date.now()
+    await new Promise<void>(resolve => {
+      CancellationUtils.onAbort(context.signal, resolve)
+      waiting()
+    })
+    return CancellationUtils.cancelledResult(startTime)
+  }
+
+  validate = () => true
+  getConfig = () => ({})
+}
+
+const overlap = { running: 0, max: 0 }
+
+class SlowNode implements INode {
+  readonly type = 'test-slow'
+  readonly version = '1.0.0'
+  readonly category = 'database'
+
+  static getMetadata(): any {
+    return { type: 'test-slow', version: '1.0.0', configuration: { concurrency: 2 } }
+  }
+
+  async execute(): Promise<NodeResult> {
+    overlap.max = Math.max(overlap.max, ++overlap.running)
+    await new Promise(resolve => setTimeout(resolve, 20))
+    overlap.running--
+    return { success: true, data: {} }
+  }
+
+  validate = () => true
+  getConfig = () => ({})
+}
+
+function createExecutor(options: ConstructorParameters<typeof FlowExecutor>[1] = {}): FlowExecutor {
+  const registry = new NodeRegistry()
+  registry.register(WriteNode, 'test-write')
+  registry.register(FailNode, 'test-fail')
+  registry.register(WaitNode, 'test-wait')
+  registry.register(SlowNode, 'test-slow')
+  registry.register(EchoNode, 'test-echo')
+  return new FlowExecutor(registry, { policy: { retries: 0 }, ...options })
+}
+
+function flow(nodes: FlowDefinition['nodes'], connections: FlowDefinition['connections'] = []): FlowDefinition {
+  return { name: 'test', version: 1, nodes, connections }
+}
+
+beforeEach(() => {
+  compensated.length = 0
+  failing = true
+  overlap.max = 0
+})
+
+describe('FlowExecutor wiring', () => {
+  it('copies output pins into input pins and merges outputs of connections without ports', async () => {
+    const execution = await createExecutor().execute({
+      flowId: 'f',
+      flowData: flow(
+        [
+          { id: 'user', type: 'test-echo', config: { id: 7, name: 'Ana' } },
+          { id: 'order', type: 'test-echo', config: { total: 10 } },
+          { id: 'target', type: 'test-echo', config: { status: 'new' } }
+        ],
+        [
+          { sourceId: 'user', targetId: 'target', sourcePort: 'id', targetPort: 'userId' },
+          { sourceId: 'order', targetId: 'target' }
+        ]
+      )
+    })
+
+    expect(execution.status).toBe('completed')
+    expect(execution.results.target.data).toEqual({ status: 'new', userId: 7, total: 10 })
+    expect(execution.executionOrder).toEqual(['user', 'order', 'target'])
+  })
+
+  it('resolves expressions against upstream outputs and flow inputs, running referenced nodes first', async () => {
+    const execution = await createExecutor().execute({
+      flowId: 'f',
+      inputs: { region: 'eu' },
+      flowData: flow([
+        { id: 'target', type: 'test-echo', config: { userId: '{{ nodes.user.id }}', label: '{{ inputs.region }}-{{ nodes.user.id }}' } },
+        { id: 'user', type: 'test-echo', config: { id: 7 } }
+      ])
+    })
+
+    expect(execution.status).toBe('completed')
+    expect(execution.executionOrder).toEqual(['user', 'target'])
+    expect(execution.results.target.data).toEqual({ userId: 7, label: 'eu-7' })
+  })
+
+  it('stops at a failed node and skips the nodes downstream of it', async () => {
+    const execution = await createExecutor().execute({
+      flowId: 'f',
+      flowData: flow(
+        [
+          { id: 'start', type: 'test-echo', config: {} },
+          { id: 'check', type: 'test-fail', config: {} },
+          { id: 'after', type: 'test-echo', config: {} }
+        ],
+        [
+          { sourceId: 'start', targetId: 'check' },
+          { sourceId: 'check', targetId: 'after' }
+        ]
+      )
+    })
+
+    expect(execution.status).toBe('failed')
+    expect(execution.failedNodeId).toBe('check')
+    expect(execution.error).toBe('boom')
+    expect(execution.statuses).toEqual({ start: 'success', check: 'failed', after: 'skipped' })
+    expect(execution.results.after).toBeUndefined()
+  })
+})
+
+describe('FlowExecutor compensation', () => {
+  it('gives compensate() the resolved config and input instead of storing them in rollbackData', async () => {
+    const execution = await createExecutor().execute({
+      flowId: 'f',
+      inputs: { url: 'postgresql://user:secret@db/app' },
+      flowData: flow(
+        [
+          { id: 'source', type: 'test-write', config: { id: 1 } },
+          { id: 'write', type: 'test-write', config: { connectionString: '{{ inputs.url }}' } },
+          { id: 'fail', type: 'test-fail', config: {} }
+        ],
+        [
+          { sourceId: 'source', targetId: 'write', sourcePort: 'id', targetPort: 'id' },
+          { sourceId: 'write', targetId: 'fail' }
+        ]
+      )
+    })
+
+    expect(execution.status).toBe('failed')
+    expect(execution.statuses.write).toBe('compensated')
+    expect(execution.results.write.rollbackData).toEqual({ id: 1 })
+
+    const write = compensated.find(entry => entry.nodeId === 'write')!
+    expect(write.context.config.connectionString).toBe('postgresql://user:secret@db/app')
+    expect(write.context.input).toMatchObject({ connectionString: 'postgresql://user:secret@db/app', id: 1 })
+    expect(compensated.map(entry => entry.nodeId)).toEqual(['write', 'source'])
+  })
+})
+
+describe('FlowExecutor concurrency', () => {
+  const fanOut = flow(
+    [
+      { id: 'source', type: 'test-write', config: { id: 1 } },
+      ...['a', 'b', 'c', 'd'].map(id => ({ id, type: 'test-slow', config: {} }))
+    ],
+    ['a', 'b', 'c', 'd'].map(targetId => ({ sourceId: 'source', targetId }))
+  )
+
+  it('runs parallel branches up to the configuration.concurrency of their node type', async () => {
+    const execution = await createExecutor({ concurrency: 8 }).execute({ flowId: 'f', flowData: fanOut })
+
+    expect(execution.status).toBe('completed')
+    expect(overlap.max).toBe(2)
+    expect(Object.keys(execution.results)).toEqual(['source', 'a', 'b', 'c', 'd'])
+  })
+
+  it('lets typeConcurrency and the global limit change how many branches overlap', async () => {
+    await createExecutor({ concurrency: 8, typeConcurrency: { 'test-slow': 4 } }).execute({ flowId: 'f', flowData: fanOut })
+    expect(overlap.max).toBe(4)
+
+    overlap.max = 0
+    await createExecutor({ concurrency: 3, typeConcurrency: { 'test-slow': 4 } }).execute({ flowId: 'f', flowData: fanOut })
+    expect(overlap.max).toBe(3)
+  })
+})
+
+describe('FlowExecutor.cancel', () => {
+  it('aborts the running node, skips the rest and compensates completed nodes', async () => {
+    const executor = createExecutor()
+    waiting = () => executor.cancel('e2')
+
+    const execution = await executor.execute({
+      flowId: 'f',
+      executionId: 'e2',
+      flowData: flow(
+        [
+          { id: 'write', type: 'test-write', config: { id: 1 } },
+          { id: 'wait', type: 'test-wait', config: {} },
+          { id: 'after', type: 'test-write', config: { id: 2 } }
+        ],
+        [
+          { sourceId: 'write', targetId: 'wait' },
+          { sourceId: 'wait', targetId: 'after' }
+        ]
+      )
+    })
+
+    expect(execution.status).toBe('cancelled')
+    expect(execution.statuses).toEqual({ write: 'compensated', wait: 'cancelled', after: 'skipped' })
+    expect(compensated.map(entry => entry.nodeId)).toEqual(['write'])
+  })
+})
+
+describe('FlowExecutor.resume', () => {
+  it('runs compensated nodes again instead of restoring their checkpoints', async () => {
+    const checkpointStore = new InMemoryCheckpointStore()
+    const executor = createExecutor({ checkpointStore })
+
+    const first = await executor.execute({
+      flowId: 'f',
+      executionId: 'e1',
+      flowData: flow(
+        [
+          { id: 'write', type: 'test-write', config: { id: 1 } },
+          { id: 'check', type: 'test-fail', config: {} }
+        ],
+        [{ sourceId: 'write', targetId: 'check' }]
+      )
+    })
+    expect(first.statuses.write).toBe('compensated')
+    expect((await checkpointStore.getNodeResults('e1')).write.compensated).toBe(true)
+
+    failing = false
+    const resumed = await executor.resume('e1')
+
+    expect(resumed.status).toBe('completed')
+    expect(resumed.restoredNodeIds).toBeUndefined()
+    expect(resumed.statuses).toEqual({ write: 'success', check: 'success' })
+    expect((await checkpointStore.getNodeResults('e1')).write.compensated).toBeUndefined()
+  })
+  it('restores succeeded nodes from a file system store and runs the rest again', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoints-'))
+
+    try {
+      const definition = flow(
+        [
+          { id: 'echo', type: 'test-echo', config: { id: 1 } },
+          { id: 'check', type: 'test-fail', config: {} },
+          { id: 'after', type: 'test-echo', config: {} }
+        ],
+        [
+          { sourceId: 'echo', targetId: 'check' },
+          { sourceId: 'check', targetId: 'after' }
+        ]
+      )
+      const first = await createExecutor({ checkpointStore: new FileSystemCheckpointStore(directory) }).execute({
+        flowId: 'f',
+        executionId: 'e2',
+        flowData: definition
+      })
+      expect(first.status).toBe('failed')
+
+      // A new executor over the same directory, as after a process restart
+      const executor = createExecutor({ checkpointStore: new FileSystemCheckpointStore(directory) })
+      failing = false
+      const resumed = await executor.resume('e2')
+
+      expect(resumed.status).toBe('completed')
+      expect(resumed.restoredNodeIds).toEqual(['echo'])
+      expect(resumed.results.echo.data).toEqual({ id: 1 })
+      expect(resumed.statuses).toEqual({ echo: 'success', check: 'success', after: 'success' })
+      await expect(executor.resume('e2')).rejects.toThrow("Execution 'e2' already completed")
+      await expect(executor.resume('unknown')).rejects.toThrow("No checkpoint found for execution 'unknown'")
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true })
+    }
+  })
+})
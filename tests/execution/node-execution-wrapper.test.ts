@@ -0,0 +1,132 @@
+import { NodeExecutionWrapper, RetryableErrorClassifier, ExecutionPolicy } from '../../src/execution/node-execution-wrapper'
+import { INode, NodeResult } from '../../src/interfaces/node.interface'
+import { PostgreSQLQueryNode } from '../../src/nodes/database/postgresql-query.node'
+import { MongoDBOperationsNode } from '../../src/nodes/database/mongodb-operations.node'
+
+const policy: ExecutionPolicy = {
+  timeout: 20,
+  retries: 2,
+  backoff: { initialDelay: 1, multiplier: 1, maxDelay: 1, jitter: 0 }
+}
+
+function slowNode(idempotent?: boolean): INode & { calls: number } {
+  return {
+    type: 'slow',
+    version: '1.0.0',
+    category: 'database',
+    calls: 0,
+    async execute(): Promise<NodeResult> {
+      this.calls++
+      await new Promise(resolve => setTimeout(resolve, 100))
+      return { success: true }
+    },
+    validate: () => true,
+    getConfig: () => ({}),
+    ...(idempotent === undefined ? {} : { isIdempotent: () => idempotent })
+  }
+}
+
+function lostConnectionNode(idempotent: boolean): INode & { calls: number } {
+  return {
+    type: 'write',
+    version: '1.0.0',
+    category: 'database',
+    calls: 0,
+    async execute(): Promise<NodeResult> {
+      this.calls++
+      throw new Error('Connection terminated unexpectedly')
+    },
+    validate: () => true,
+    getConfig: () => ({}),
+    isIdempotent: () => idempotent
+  }
+}
+
+describe('RetryableErrorClassifier', () => {
+  it('retries timeouts only for idempotent operations', () => {
+    const timeout = new Error('Node x timed out after 20ms')
+
+    expect(RetryableErrorClassifier.isRetryable(timeout)).toBe(false)
+    expect(RetryableErrorClassifier.isRetryable(timeout, { idempotent: true })).toBe(true)
+    expect(RetryableErrorClassifier.isRetryable(Object.assign(new Error('read'), { code: 'ETIMEDOUT' }))).toBe(false)
+  })
+
+  it('retries failures that happen before the operation is sent', () => {
+    expect(RetryableErrorClassifier.isRetryable(new Error('Connection terminated due to connection timeout'))).toBe(true)
+    expect(RetryableErrorClassifier.isRetryable(Object.assign(new Error('timed out'), { name: 'MongoServerSelectionError' }))).toBe(true)
+    expect(RetryableErrorClassifier.isRetryable(Object.assign(new Error('x'), { code: 'ECONNREFUSED' }))).toBe(true)
+  })
+
+  it('retries connections lost after the operation was sent only for idempotent operations', () => {
+    const errors = [
+      new Error('Connection terminated unexpectedly'),
+      Object.assign(new Error('read'), { code: 'ECONNRESET' }),
+      Object.assign(new Error('write'), { code: 'EPIPE' }),
+      Object.assign(new Error('connection 1 to localhost:27017 closed'), { name: 'MongoNetworkError' })
+    ]
+
+    for (const error of errors) {
+      expect(RetryableErrorClassifier.isRetryable(error)).toBe(false)
+      expect(RetryableErrorClassifier.isRetryable(error, { idempotent: true })).toBe(true)
+    }
+  })
+})
+
+describe('NodeExecutionWrapper.run', () => {
+  it('does not retry a timed out node that is not idempotent', async () => {
+    const node = slowNode()
+    const result = await NodeExecutionWrapper.run(node, {}, {}, policy)
+
+    expect(result.success).toBe(false)
+    expect(result.retryable).toBe(false)
+    expect(node.calls).toBe(1)
+  })
+
+  it('retries a timed out idempotent node', async () => {
+    const node = slowNode(true)
+    const result = await NodeExecutionWrapper.run(node, {}, {}, policy)
+
+    expect(result.success).toBe(false)
+    expect(node.calls).toBe(3)
+    expect(result.metrics?.attempts).toBe(3)
+  })
+
+  it('does not retry a write whose connection was lost after it was sent', async () => {
+    const node = lostConnectionNode(false)
+    const result = await NodeExecutionWrapper.run(node, {}, {}, policy)
+
+    expect(result.success).toBe(false)
+    expect(result.error).toContain('Connection terminated unexpectedly')
+    expect(node.calls).toBe(1)
+  })
+
+  it('retries an idempotent operation whose connection was lost', async () => {
+    const node = lostConnectionNode(true)
+    const result = await NodeExecutionWrapper.run(node, {}, {}, policy)
+
+    expect(result.success).toBe(false)
+    expect(node.calls).toBe(3)
+  })
+})
+
+describe('isIdempotent', () => {
+  it('accepts read-only PostgreSQL statements only', () => {
+    const node = new PostgreSQLQueryNode({})
+    const input = (query: string) => ({ connectionString: 'postgresql://db', query })
+
+    expect(node.isIdempotent(input('  -- users\nSELECT * FROM users'))).toBe(true)
+    expect(node.isIdempotent(input('INSERT INTO users (name) VALUES ($1)'))).toBe(false)
+    expect(node.isIdempotent(input('WITH x AS (DELETE FROM users RETURNING *) SELECT * FROM x'))).toBe(false)
+  })
+
+  it('accepts MongoDB reads and pipelines without $out/$merge', () => {
+    const node = new MongoDBOperationsNode()
+    const input = (operation: any, pipeline?: any[]) =>
+      ({ connectionString: 'mongodb://db', database: 'd', collection: 'c', operation, pipeline })
+
+    expect(node.isIdempotent(input('find'))).toBe(true)
+    expect(node.isIdempotent(input('aggregate', [{ $match: {} }]))).toBe(true)
+    expect(node.isIdempotent(input('aggregate', [{ $match: {} }, { $out: 'copy' }]))).toBe(false)
+    expect(node.isIdempotent(input('insertMany'))).toBe(false)
+  })
+})
@@ -0,0 +1,69 @@
+import { StreamPipeline } from '../../src/execution/stream-pipeline'
+import { DataFilterNode } from '../../src/nodes/transformation/data-filter.node'
+import { FieldMapperNode } from '../../src/nodes/transformation/field-mapper.node'
+import { DataSortNode } from '../../src/nodes/transformation/data-sort.node'
+import { StreamUtils } from '../../src/utils/stream'
+
+const filter = { node: new DataFilterNode({}), input: { conditions: [{ field: 'total', operator: 'greater_than', value: 10 }] } }
+const mapper = {
+  node: new FieldMapperNode({}),
+  input: { mapping: [{ sourceField: 'id', targetField: 'orderId', transformation: 'rename' }] }
+}
+
+function source(count: number, pulled: number[]) {
+  return {
+    node: new DataFilterNode({}),
+    input: {
+      conditions: [],
+      data: {
+        *[Symbol.iterator]() {
+          for (let id = 1; id <= count; id++) {
+            pulled.push(id)
+            yield { id, total: id * 5 }
+          }
+        }
+      }
+    }
+  }
+}
+
+describe('StreamPipeline', () => {
+  it('chains filter and mapper stages', async () => {
+    const records = await StreamUtils.collect(StreamPipeline.compose([source(4, []), filter, mapper]))
+
+    expect(records).toEqual([{ orderId: 3 }, { orderId: 4 }])
+  })
+
+  it('pulls records from the source only as the sink consumes them', async () => {
+    const pulled: number[] = []
+    const seen: number[][] = []
+
+    const result = await StreamPipeline.run([source(5, pulled), mapper], undefined, () => {
+      seen.push([...pulled])
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.data).toEqual({ recordsProcessed: 5 })
+    expect(seen).toEqual([[1], [1, 2], [1, 2, 3], [1, 2, 3, 4], [1, 2, 3, 4, 5]])
+  })
+
+  it('stops with a cancelled result when the signal aborts mid-stream', async () => {
+    const controller = new AbortController()
+    const pulled: number[] = []
+
+    const result = await StreamPipeline.run([source(100, pulled), mapper], { signal: controller.signal }, () => {
+      if (pulled.length === 3) controller.abort()
+    })
+
+    expect(result).toMatchObject({ success: false, cancelled: true })
+    expect(result.metrics!.recordsProcessed).toBe(3)
+    expect(pulled.length).toBeLessThan(100)
+  })
+
+  it('rejects stages whose node does not stream', () => {
+    expect(() => StreamPipeline.compose([{ node: new DataSortNode({}), input: {} }])).toThrow(
+      "Node type 'data-sort' does not support streaming"
+    )
+    expect(() => StreamPipeline.compose([])).toThrow('A stream pipeline needs at least one stage')
+  })
+})
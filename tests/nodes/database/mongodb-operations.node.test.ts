@@ -0,0 +1,72 @@
+import { ObjectId } from 'mongodb'
+import { MongoDBOperationsNode } from '../../../src/nodes/database/mongodb-operations.node'
+
+function fakeCollection() {
+  return {
+    replaced: [] as any[],
+    deleted: [] as any[],
+    async replaceOne(filter: any, document: any) {
+      this.replaced.push({ filter, document })
+      return { modifiedCount: 1 }
+    },
+    async deleteMany(filter: any) {
+      this.deleted.push(filter)
+      return { deletedCount: filter._id.$in.length }
+    }
+  }
+}
+
+function withCollection(node: MongoDBOperationsNode, collection: any): void {
+  jest.spyOn(node as any, 'connect').mockImplementation(async () => {
+    (node as any).client = { db: () => ({ collection: () => collection }), close: async () => {} }
+  })
+}
+
+describe('MongoDBOperationsNode compensation', () => {
+  const input = {
+    connectionString: 'mongodb://db',
+    database: 'app',
+    collection: 'orders',
+    operation: 'updateOne' as const,
+    query: {},
+    update: { $set: { status: 'paid' } }
+  }
+
+  it('restores originals with their BSON types after a JSON checkpoint', async () => {
+    const original = {
+      _id: new ObjectId(),
+      customerId: new ObjectId(),
+      reference: '0123456789abcdef01234567',
+      createdAt: new Date('2024-01-02T03:04:05.000Z')
+    }
+    const node = new MongoDBOperationsNode({})
+    const rollbackData = (node as any).buildRollbackData(input, { result: {} }, [original])
+    const checkpointed = JSON.parse(JSON.stringify(rollbackData))
+
+    const collection = fakeCollection()
+    withCollection(node, collection)
+    const result = await node.compensate(checkpointed, { input } as any)
+
+    expect(result.success).toBe(true)
+    const { filter, document } = collection.replaced[0]
+    expect(filter._id).toEqual(original._id)
+    expect(document.customerId).toBeInstanceOf(ObjectId)
+    expect(document.createdAt).toEqual(original.createdAt)
+    expect(document.reference).toBe('0123456789abcdef01234567')
+  })
+
+  it('deletes inserted documents by their original ids', async () => {
+    const ids = [new ObjectId(), 'custom-id']
+    const node = new MongoDBOperationsNode({})
+    const rollbackData = (node as any).buildRollbackData(
+      { ...input, operation: 'insertMany', document: [{}, {}] },
+      { result: {}, insertedIds: { 0: ids[0], 1: ids[1] } }
+    )
+
+    const collection = fakeCollection()
+    withCollection(node, collection)
+    await node.compensate(JSON.parse(JSON.stringify(rollbackData)), { input } as any)
+
+    expect(collection.deleted[0]._id.$in).toEqual(ids)
+  })
+})
@@ -0,0 +1,54 @@
+import { PostgreSQLQueryNode } from '../../../src/nodes/database/postgresql-query.node'
+
+describe('PostgreSQLQueryNode compensation', () => {
+  it('keeps the connection string out of rollback data', () => {
+    const rollbackData = (new PostgreSQLQueryNode({}) as any).buildRollbackData(
+      {
+        connectionString: 'postgresql://user:secret@db/app',
+        query: 'INSERT INTO users (name) VALUES ($1) RETURNING id',
+        compensationQuery: 'DELETE FROM users WHERE id = $1',
+        compensationParameters: ['id']
+      },
+      [{ id: 7 }]
+    )
+
+    expect(rollbackData).toEqual({ query: 'DELETE FROM users WHERE id = $1', parameterSets: [[7]] })
+    expect(JSON.stringify(rollbackData)).not.toContain('secret')
+  })
+
+  it('leaves no rollback data when the write returned no rows', () => {
+    const rollbackData = (new PostgreSQLQueryNode({}) as any).buildRollbackData(
+      {
+        connectionString: 'postgresql://db/app',
+        query: 'UPDATE users SET active = false WHERE id = $1 RETURNING id',
+        compensationQuery: 'UPDATE users SET active = true WHERE id = $1',
+        compensationParameters: ['id']
+      },
+      []
+    )
+
+    expect(rollbackData).toBeUndefined()
+  })
+
+  it('requires RETURNING to bind compensation parameters', () => {
+    const node = new PostgreSQLQueryNode({})
+    const input = {
+      connectionString: 'postgresql://db/app',
+      query: 'INSERT INTO users (name) VALUES ($1)',
+      compensationQuery: 'DELETE FROM users WHERE id = $1',
+      compensationParameters: ['id']
+    }
+
+    const result = node.validateInput(input)
+    expect(result.valid).toBe(false)
+    expect(result.errors[0].field).toBe('compensationParameters')
+    expect(node.validateInput({ ...input, query: `${input.query} RETURNING id` }).valid).toBe(true)
+  })
+
+  it('fails without a connection string in the context', async () => {
+    const result = await new PostgreSQLQueryNode({}).compensate({ query: 'DELETE FROM users', parameterSets: [[]] })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toMatch(/connectionString/)
+  })
+})
@@ -0,0 +1,63 @@
+import { NodeRegistry } from '../../src/base/node-registry'
+import { INode, NodeResult } from '../../src/interfaces/node.interface'
+import { createDefaultRegistry, getBuiltInNodes } from '../../src/nodes/default-registry'
+import { DataFilterNode } from '../../src/nodes/transformation/data-filter.node'
+
+class DriftedNode implements INode {
+  readonly type = 'drifted'
+  readonly version = '1.0.0'
+  readonly category = 'transformation'
+
+  static getMetadata(): any {
+    return { type: 'drifted', version: '1.1.0' }
+  }
+
+  async execute(): Promise<NodeResult> {
+    return { success: true }
+  }
+
+  validate = () => true
+  getConfig = () => ({})
+}
+
+describe('createDefaultRegistry', () => {
+  it('registers every built-in node under the type and version of its metadata', () => {
+    const registry = createDefaultRegistry()
+    const registrations = registry.getRegistrations()
+
+    expect(registrations.map(registration => registration.type)).toEqual(
+      getBuiltInNodes().map(NodeClass => NodeClass.getMetadata().type)
+    )
+    expect(registrations.some(registration => registration.generatedMetadata)).toBe(false)
+    for (const NodeClass of getBuiltInNodes()) {
+      const { type, version } = NodeClass.getMetadata()
+      const node = registry.create(type, {})
+      expect([node.type, node.version]).toEqual([type, version])
+    }
+  })
+
+  it('includes the database, transformation and logic nodes', () => {
+    expect(createDefaultRegistry().getAvailableTypes()).toEqual(expect.arrayContaining([
+      'postgresql-query',
+      'mongodb-operations',
+      'data-filter',
+      'field-mapper',
+      'for-each'
+    ]))
+  })
+
+  it('returns independent registries', () => {
+    const registry = createDefaultRegistry()
+    registry.register(DataFilterNode, 'data-filter', { version: '2.0.0' })
+
+    expect(createDefaultRegistry().getVersions('data-filter')).toEqual(['1.0.0'])
+  })
+})
+
+describe('NodeRegistry.registerNode', () => {
+  it('rejects classes whose metadata disagrees with their instances', () => {
+    expect(() => new NodeRegistry().registerNode(DriftedNode)).toThrow(
+      "Node class 'DriftedNode' declares version '1.1.0' in getMetadata() but its instances have version '1.0.0'"
+    )
+  })
+})
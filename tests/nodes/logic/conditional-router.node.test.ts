@@ -0,0 +1,29 @@
+import { ConditionalRouterNode } from '../../../src/nodes/logic/conditional-router.node'
+
+describe('ConditionalRouterNode', () => {
+  it('routes to cases named like Object.prototype members', async () => {
+    const names = ['constructor', 'toString', '__proto__', 'hasOwnProperty']
+    const result = await new ConditionalRouterNode({}).execute({
+      data: names.map(kind => ({ kind })),
+      cases: names.map(name => ({ name, conditions: [{ field: 'kind', operator: 'equals', value: name }] }))
+    })
+
+    expect(result.success).toBe(true)
+    for (const name of names) {
+      expect(Object.prototype.hasOwnProperty.call(result.data, name)).toBe(true)
+      expect(result.data![name]).toEqual([{ kind: name }])
+    }
+    expect(Object.keys(result.data!)).toEqual(names)
+  })
+
+  it('leaves out pins that receive nothing', async () => {
+    const result = await new ConditionalRouterNode({}).execute({
+      data: [{ total: 5 }],
+      conditions: [{ field: 'total', operator: 'greater_than', value: 1 }]
+    })
+
+    expect(result.data!.true).toEqual([{ total: 5 }])
+    expect(result.data!.false).toBeUndefined()
+    expect(result.data!.constructor).toBeUndefined()
+  })
+})
@@ -0,0 +1,221 @@
+import { NodeRegistry } from '../../../src/base/node-registry'
+import { FlowExecutor } from '../../../src/execution/flow-executor'
+import { ExecutionContext } from '../../../src/interfaces/execution-context.interface'
+import { INode, NodeResult } from '../../../src/interfaces/node.interface'
+import { ForEachNode } from '../../../src/nodes/logic/for-each.node'
+import { FlowValidator } from '../../../src/validators/flow-validator'
+
+const compensated: { nodeId: string; rollbackData: any; input: any }[] = []
+
+class InsertNode implements INode {
+  readonly type = 'test-insert'
+  readonly version = '2.0.0'
+  readonly category = 'database'
+
+  constructor(private readonly config: any = {}) {}
+
+  async execute(input: any): Promise<NodeResult> {
+    if (input.id === 3) return { success: false, error: 'duplicate key' }
+    return { success: true, data: { id: input.id }, rollbackData: { insertedId: input.id } }
+  }
+
+  async compensate(rollbackData: any, context: ExecutionContext): Promise<NodeResult<void>> {
+    compensated.push({ nodeId: context.nodeId, rollbackData, input: context.input })
+    return { success: true, metrics: { executionTime: 0, recordsProcessed: 1 } }
+  }
+
+  validate = () => true
+  getConfig = () => this.config
+}
+
+class FailNode implements INode {
+  readonly type = 'test-fail'
+  readonly version = '1.0.0'
+  readonly category = 'logic'
+
+  async execute(): Promise<NodeResult> {
+    return { success: false, error: 'boom' }
+  }
+
+  validate = () => true
+  getConfig = () => ({})
+}
+
+class DefaultsNode implements INode {
+  readonly type = 'test-defaults'
+  readonly version = '1.0.0'
+  readonly category = 'transformation'
+
+  static getMetadata(): any {
+    return {
+      type: 'test-defaults',
+      version: '1.0.0',
+      inputs: [
+        { name: 'mode', type: 'string', defaultValue: 'fast' },
+        { name: 'id', type: 'number' }
+      ]
+    }
+  }
+
+  async execute(input: any): Promise<NodeResult> {
+    return { success: true, data: input }
+  }
+
+  validate = (input: any) => input.mode === 'fast'
+  getConfig = () => ({})
+}
+
+function createRegistry(): NodeRegistry {
+  const registry = new NodeRegistry()
+  registry.register(ForEachNode, 'for-each')
+  registry.register(InsertNode, 'test-insert')
+  registry.register(FailNode, 'test-fail')
+  registry.register(DefaultsNode, 'test-defaults')
+  return registry
+}
+
+const forEachConfig = {
+  items: [{ id: 1 }, { id: 2 }, { id: 3 }],
+  node: { type: 'test-insert', config: { connectionString: 'db://secret' } },
+  bindings: { id: 'id' }
+}
+
+beforeEach(() => {
+  compensated.length = 0
+})
+
+describe('ForEachNode rollback', () => {
+  it('keeps the rollback data of each record with the inner node type and version', async () => {
+    const result = await new ForEachNode({}).execute(forEachConfig, {
+      flowId: 'f',
+      executionId: 'e',
+      nodeId: 'loop',
+      logger: console,
+      config: {},
+      registry: createRegistry()
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.data!.failed).toBe(1)
+    expect(result.rollbackData).toEqual({
+      items: [
+        { index: 0, type: 'test-insert', version: '2.0.0', rollbackData: { insertedId: 1 } },
+        { index: 1, type: 'test-insert', version: '2.0.0', rollbackData: { insertedId: 2 } }
+      ]
+    })
+  })
+
+  it('compensates every record, last first, when a later node fails', async () => {
+    const execution = await new FlowExecutor(createRegistry(), { policy: { retries: 0 } }).execute({
+      flowId: 'f',
+      flowData: {
+        name: 'test',
+        version: 1,
+        nodes: [
+          { id: 'loop', type: 'for-each', config: forEachConfig },
+          { id: 'fail', type: 'test-fail', config: {} }
+        ],
+        connections: [{ sourceId: 'loop', targetId: 'fail' }]
+      }
+    })
+
+    expect(execution.statuses.loop).toBe('compensated')
+    expect(execution.compensations!.loop.metrics!.recordsProcessed).toBe(2)
+    expect(compensated).toEqual([
+      { nodeId: 'loop[1]', rollbackData: { insertedId: 2 }, input: { connectionString: 'db://secret', id: 2 } },
+      { nodeId: 'loop[0]', rollbackData: { insertedId: 1 }, input: { connectionString: 'db://secret', id: 1 } }
+    ])
+  })
+})
+
+describe('ForEachNode inputs', () => {
+  it('gives the inner node the input defaults from its metadata', async () => {
+    const result = await new ForEachNode({}).execute(
+      { items: [{ id: 1 }], node: { type: 'test-defaults', config: {} }, bindings: { id: 'id' } },
+      { flowId: 'f', executionId: 'e', nodeId: 'loop', logger: console, config: {}, registry: createRegistry() }
+    )
+
+    expect(result.data!.failed).toBe(0)
+    expect(result.data!.results).toEqual([{ mode: 'fast', id: 1 }])
+  })
+})
+
+describe('ForEachNode sub-flows', () => {
+  const flowData = {
+    name: 'outer',
+    version: 1,
+    nodes: [
+      {
+        id: 'loop',
+        type: 'for-each',
+        config: {
+          items: [{ id: 1 }, { id: 2 }],
+          flow: {
+            name: 'inner',
+            version: 1,
+            nodes: [
+              { id: 'f', type: 'test-insert', config: {} },
+              { id: 'g', type: 'test-insert', config: { id: '{{ nodes.f.id }}' } }
+            ],
+            connections: []
+          },
+          bindings: { 'f.id': 'id' }
+        }
+      }
+    ],
+    connections: []
+  }
+
+  it('leaves sub-flow expressions for the sub-flow to resolve', async () => {
+    const execution = await new FlowExecutor(createRegistry()).execute({ flowId: 'f', flowData })
+
+    expect(execution.status).toBe('completed')
+    expect(execution.results.loop.data.results.map((result: any) => result.g)).toEqual([{ id: 1 }, { id: 2 }])
+  })
+
+  it('does not report sub-flow references as unknown nodes', () => {
+    const validation = new FlowValidator(createRegistry()).validate(flowData)
+
+    expect(validation.errors.map(error => error.code)).not.toContain('UNKNOWN_NODE_REFERENCE')
+  })
+
+  it('compensates the writes of every sub-flow run, last first, when a later node fails', async () => {
+    const execution = await new FlowExecutor(createRegistry(), { policy: { retries: 0 } }).execute({
+      flowId: 'f',
+      flowData: {
+        name: 'outer',
+        version: 1,
+        nodes: [
+          {
+            id: 'loop',
+            type: 'for-each',
+            config: {
+              items: [{ id: 1 }, { id: 2 }],
+              flow: {
+                name: 'inner',
+                version: 1,
+                nodes: [{ id: 'insert', type: 'test-insert', config: { connectionString: 'db://secret' } }],
+                connections: []
+              },
+              bindings: { 'insert.id': 'id' }
+            }
+          },
+          { id: 'fail', type: 'test-fail', config: {} }
+        ],
+        connections: [{ sourceId: 'loop', targetId: 'fail' }]
+      }
+    })
+
+    expect(execution.results.loop.rollbackData).toEqual({
+      items: [
+        { index: 0, nodeId: 'insert', type: 'test-insert', version: '2.0.0', rollbackData: { insertedId: 1 } },
+        { index: 1, nodeId: 'insert', type: 'test-insert', version: '2.0.0', rollbackData: { insertedId: 2 } }
+      ]
+    })
+    expect(execution.statuses.loop).toBe('compensated')
+    expect(compensated).toEqual([
+      { nodeId: 'loop[1].insert', rollbackData: { insertedId: 2 }, input: { connectionString: 'db://secret', id: 2 } },
+      { nodeId: 'loop[0].insert', rollbackData: { insertedId: 1 }, input: { connectionString: 'db://secret', id: 1 } }
+    ])
+  })
+})
@@ -0,0 +1,30 @@
+import { DataAggregateNode } from '../../../src/nodes/transformation/data-aggregate.node'
+
+describe('DataAggregateNode', () => {
+  it('sums and averages numeric strings as pg returns NUMERIC and BIGINT columns', async () => {
+    const result = await new DataAggregateNode({}).execute({
+      data: [{ amount: '10.50' }, { amount: 2 }, { amount: '12345678901234' }, { amount: 'n/a' }, { amount: '' }, { amount: null }],
+      aggregations: [
+        { operation: 'sum', field: 'amount', as: 'total' },
+        { operation: 'avg', field: 'amount', as: 'average' }
+      ]
+    })
+
+    expect(result.success).toBe(true)
+    const [group] = result.data!.groups
+    expect(group.total).toBeCloseTo(10.5 + 2 + 12345678901234)
+    expect(group.average).toBeCloseTo((10.5 + 2 + 12345678901234) / 3)
+  })
+
+  it('compares numeric strings by value for min and max', async () => {
+    const result = await new DataAggregateNode({}).execute({
+      data: [{ amount: '9' }, { amount: '10' }, { amount: '100.5' }],
+      aggregations: [
+        { operation: 'min', field: 'amount', as: 'lowest' },
+        { operation: 'max', field: 'amount', as: 'highest' }
+      ]
+    })
+
+    expect(result.data!.groups).toEqual([{ lowest: '9', highest: '100.5' }])
+  })
+})
@@ -0,0 +1,37 @@
+import { ObjectId } from 'mongodb'
+import { DataJoinNode } from '../../../src/nodes/transformation/data-join.node'
+
+describe('DataJoinNode', () => {
+  it('joins on object and ObjectId keys by content', async () => {
+    const ana = new ObjectId()
+    const bea = new ObjectId()
+
+    const result = await new DataJoinNode({}).execute({
+      mode: 'inner',
+      left: [
+        { user: ana, region: { country: 'ES', zone: 1 }, name: 'Ana' },
+        { user: bea, region: { country: 'PT', zone: 2 }, name: 'Bea' }
+      ],
+      right: [
+        { userId: new ObjectId(bea.toHexString()), region: { zone: 2, country: 'PT' }, total: 9 },
+        { userId: new ObjectId(ana.toHexString()), region: { country: 'ES', zone: 3 }, total: 4 }
+      ],
+      leftKey: ['user', 'region'],
+      rightKey: ['userId', 'region']
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.data!.joined.map((record: any) => [record.name, record.total])).toEqual([['Bea', 9]])
+  })
+
+  it('unions records with object keys without merging distinct ones', async () => {
+    const result = await new DataJoinNode({}).execute({
+      mode: 'union',
+      left: [{ key: { a: 1 } }, { key: { a: 2 } }],
+      right: [{ key: { a: 1 } }],
+      leftKey: 'key'
+    })
+
+    expect(result.data!.joined).toEqual([{ key: { a: 1 } }, { key: { a: 2 } }])
+  })
+})
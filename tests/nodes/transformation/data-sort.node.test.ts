@@ -0,0 +1,39 @@
+import { ObjectId } from 'mongodb'
+import { DataSortNode } from '../../../src/nodes/transformation/data-sort.node'
+
+describe('DataSortNode deduplication', () => {
+  it('keeps records with distinct object keys', async () => {
+    const result = await new DataSortNode({}).execute({
+      data: [
+        { address: { city: 'Lisbon', zip: '1000' }, name: 'a' },
+        { address: { city: 'Porto', zip: '4000' }, name: 'b' },
+        { address: { zip: '1000', city: 'Lisbon' }, name: 'c' }
+      ],
+      dedupeBy: 'address'
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.data!.sorted.map((record: any) => record.name)).toEqual(['a', 'b'])
+    expect(result.data!.duplicates_dropped).toBe(1)
+  })
+
+  it('compares ObjectId keys by hex string', async () => {
+    const first = new ObjectId()
+    const second = new ObjectId()
+
+    const result = await new DataSortNode({}).execute({
+      data: [
+        { _id: first, version: 1 },
+        { _id: second, version: 1 },
+        { _id: new ObjectId(first.toHexString()), version: 2 }
+      ],
+      dedupeBy: '_id',
+      keep: 'last'
+    })
+
+    expect(result.data!.sorted).toEqual([
+      { _id: second, version: 1 },
+      { _id: first, version: 2 }
+    ])
+  })
+})
@@ -0,0 +1,77 @@
+import { ExpressionResolver, ExpressionScope } from '../../src/utils/expressions'
+
+const scope: ExpressionScope = {
+  nodes: { pg: { result: [{ id: 7, 'first-name': 'Ada' }], at: new Date('2024-01-01T00:00:00Z') } },
+  inputs: { limit: 10, tags: ['a', 'b'] },
+  execution: { executionId: 'e1' }
+}
+
+describe('ExpressionResolver.resolve', () => {
+  it('keeps the type of a value that is a single expression', () => {
+    expect(ExpressionResolver.resolve('{{ inputs.limit }}', scope)).toBe(10)
+    expect(ExpressionResolver.resolve('{{nodes.pg.result[0]}}', scope)).toEqual({ id: 7, 'first-name': 'Ada' })
+  })
+
+  it('interpolates expressions inside longer text', () => {
+    expect(ExpressionResolver.resolve('id={{ nodes.pg.result[0].id }} tags={{ inputs.tags }} at={{ nodes.pg.at }}', scope))
+      .toBe('id=7 tags=["a","b"] at=2024-01-01T00:00:00.000Z')
+  })
+
+  it('resolves nested config and bracketed keys without touching the original', () => {
+    const config = { query: 'SELECT 1', parameters: ['{{ nodes.pg.result[0]["first-name"] }}', "{{ execution['executionId'] }}"] }
+
+    expect(ExpressionResolver.resolve(config, scope)).toEqual({ query: 'SELECT 1', parameters: ['Ada', 'e1'] })
+    expect(config.parameters[0]).toBe('{{ nodes.pg.result[0]["first-name"] }}')
+  })
+
+  it('names the config path and the missing part of unresolvable expressions', () => {
+    expect(() => ExpressionResolver.resolve({ parameters: ['{{ nodes.mongo.id }}'] }, scope)).toThrow(
+      "Cannot resolve {{ nodes.mongo.id }} in 'parameters[0]': node 'mongo' has no output (it has not run or was skipped)"
+    )
+    expect(() => ExpressionResolver.resolve('{{ nodes.pg.result[3] }}', scope)).toThrow(
+      'nodes.pg.result has no item [3] (length 1)'
+    )
+    expect(() => ExpressionResolver.resolve('{{ inputs.offset }}', scope)).toThrow("inputs has no 'offset'")
+  })
+
+  it('never reads inherited properties', () => {
+    expect(() => ExpressionResolver.resolve('{{ inputs.toString }}', scope)).toThrow("inputs has no 'toString'")
+    expect(() => ExpressionResolver.resolve('{{ inputs.tags.length }}', scope)).not.toThrow()
+  })
+})
+
+describe('ExpressionResolver.parse', () => {
+  it('splits paths into segments', () => {
+    expect(ExpressionResolver.parse(' nodes.pg.result[0]["a.b"] ')).toEqual(['nodes', 'pg', 'result', '0', 'a.b'])
+  })
+
+  it.each([
+    ['nodes.pg.__proto__', "'__proto__' cannot be accessed"],
+    ['inputs["constructor"].name', "'constructor' cannot be accessed"],
+    ["nodes.pg['prototype']", "'prototype' cannot be accessed"]
+  ])('forbids prototype access in %s', (expression, message) => {
+    expect(() => ExpressionResolver.parse(expression)).toThrow(message)
+    expect(() => ExpressionResolver.resolve(`{{ ${expression} }}`, scope)).toThrow(`Invalid expression {{ ${expression} }}`)
+  })
+
+  it('rejects anything but property paths from a known root', () => {
+    expect(() => ExpressionResolver.parse('process.env')).toThrow("Unknown root 'process'")
+    expect(() => ExpressionResolver.parse('inputs.limit + 1')).toThrow("Unexpected ' + 1'")
+    expect(() => ExpressionResolver.parse('nodes.pg.run()')).toThrow('only property paths are supported')
+  })
+})
+
+describe('ExpressionResolver.references and validate', () => {
+  const config = { a: '{{ nodes.pg.id }}', b: ['x {{ nodes.mongo.ids[0] }} {{ inputs.limit }}', '{{ nodes.pg.__proto__ }}'] }
+
+  it('lists the upstream nodes a config refers to', () => {
+    expect(ExpressionResolver.references(config)).toEqual(['pg', 'mongo'])
+    expect(ExpressionResolver.hasExpression({ a: ['plain'] })).toBe(false)
+  })
+
+  it('reports invalid expressions with their config path', () => {
+    expect(ExpressionResolver.validate(config)).toEqual([
+      { path: 'b[1]', expression: '{{ nodes.pg.__proto__ }}', message: "'__proto__' cannot be accessed" }
+    ])
+  })
+})
@@ -0,0 +1,64 @@
+import { InputSchemaBuilder } from '../../src/utils/input-schema'
+import { NodeInputMetadata } from '../../src/base/base-node'
+import { PostgreSQLQueryNode } from '../../src/nodes/database/postgresql-query.node'
+import { MongoDBOperationsNode } from '../../src/nodes/database/mongodb-operations.node'
+
+const inputs: NodeInputMetadata[] = [
+  { name: 'name', type: 'string', required: true, description: '', validation: { pattern: '^[a-z]+$' } },
+  { name: 'limit', type: 'number', required: false, description: '', validation: { minimum: 1, maximum: 100 } },
+  { name: 'mode', type: 'string', required: false, description: '', validation: { enum: ['fast', 'safe'] } },
+  { name: 'since', type: 'date', required: false, description: '' }
+]
+
+function validate(input: Record<string, any>) {
+  const parsed = InputSchemaBuilder.build(inputs).safeParse(input)
+  return InputSchemaBuilder.toValidationResult(parsed.success ? null : parsed.error)
+}
+
+describe('InputSchemaBuilder', () => {
+  it('accepts inputs matching the metadata, extra config keys included', () => {
+    expect(validate({ name: 'orders', limit: 10, mode: 'fast', since: '2024-01-01', extra: true })).toEqual({
+      valid: true,
+      errors: [],
+      warnings: []
+    })
+  })
+
+  it('reports each failing input with a code and the field', () => {
+    const result = validate({ limit: 500, mode: 'slow', since: 'yesterday-ish' })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors.map(error => [error.field, error.code])).toEqual([
+      ['name', 'REQUIRED_INPUT_MISSING'],
+      ['limit', 'VALUE_TOO_LARGE'],
+      ['mode', 'INVALID_ENUM_VALUE'],
+      ['since', 'INVALID_VALUE']
+    ])
+  })
+
+  it('reports wrong types and pattern mismatches', () => {
+    expect(validate({ name: 42 }).errors).toMatchObject([
+      { field: 'name', code: 'INVALID_TYPE', message: "Input 'name' must be string, received number" }
+    ])
+    expect(validate({ name: 'Orders' }).errors).toMatchObject([{ field: 'name', code: 'PATTERN_MISMATCH' }])
+  })
+})
+
+describe('BaseNode.validateInput', () => {
+  it('validates node inputs against their metadata', () => {
+    const result = new PostgreSQLQueryNode({}).validateInput({ query: 'SELECT 1' } as any)
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toMatchObject([{ field: 'connectionString', code: 'REQUIRED_INPUT_MISSING' }])
+  })
+
+  it('adds the checks a node declares on top of its metadata', () => {
+    const node = new MongoDBOperationsNode({})
+    const input = { connectionString: 'mongodb://db', database: 'app', collection: 'orders', operation: 'insertMany' as const }
+
+    expect(node.validateInput({ ...input, document: [] }).errors).toMatchObject([
+      { code: 'INVALID_OPERATION_INPUT', field: 'document' }
+    ])
+    expect(node.validateInput({ ...input, document: [{ total: 1 }] }).valid).toBe(true)
+  })
+})
@@ -0,0 +1,59 @@
+import { JsonSchemaBuilder } from '../../src/utils/json-schema'
+
+describe('JsonSchemaBuilder', () => {
+  it('maps input metadata to properties with validation, defaults and required fields', () => {
+    expect(JsonSchemaBuilder.fromInputs([
+      { name: 'query', type: 'string', required: true, description: 'SQL' },
+      { name: 'limit', type: 'number', required: false, description: '', defaultValue: 10, validation: { minimum: 1, maximum: 100 } },
+      { name: 'mode', type: 'string', required: false, description: '', validation: { enum: ['fast', 'safe'], pattern: '^[a-z]+$' } },
+      { name: 'since', type: 'date', required: false, description: '' },
+      { name: 'file', type: 'binary', required: false, description: '' },
+      { name: 'rows', type: 'array', required: false, description: '', validation: { minLength: 1 }, schema: { items: { type: 'object' } } }
+    ])).toEqual({
+      type: 'object',
+      properties: {
+        query: { type: 'string', minLength: 1, description: 'SQL' },
+        limit: { type: 'number', minimum: 1, maximum: 100, default: 10, description: '' },
+        mode: { type: 'string', pattern: '^[a-z]+$', enum: ['fast', 'safe'], description: '' },
+        since: { type: 'string', format: 'date-time', description: '' },
+        file: { type: 'string', contentEncoding: 'base64', description: '' },
+        rows: { type: 'array', minItems: 1, items: { type: 'object' }, description: '' }
+      },
+      required: ['query'],
+      additionalProperties: true
+    })
+  })
+
+  it('lets the declared type win over a conflicting structural schema', () => {
+    expect(JsonSchemaBuilder.fromInput({
+      name: 'count',
+      type: 'number',
+      required: false,
+      description: 'Rows',
+      schema: { type: 'string', examples: [1] }
+    })).toEqual({ type: 'number', examples: [1], description: 'Rows' })
+  })
+
+  it('uses the schema of an output pin when it has one', () => {
+    expect(JsonSchemaBuilder.fromOutputs([
+      { name: 'rows', type: 'array', description: 'Rows', schema: { type: 'array', items: { type: 'object' } } },
+      { name: 'count', type: 'number', description: 'Count' }
+    ])).toEqual({
+      type: 'object',
+      properties: {
+        rows: { type: 'array', items: { type: 'object' }, description: 'Rows' },
+        count: { type: 'number', description: 'Count' }
+      }
+    })
+  })
+
+  it('describes execution settings with the node values as defaults', () => {
+    const schema = JsonSchemaBuilder.fromConfiguration({ timeout: 5000, concurrency: 5 })
+
+    expect(Object.keys(schema.properties)).toEqual(['timeout', 'retries', 'concurrency'])
+    expect(schema.properties.timeout).toMatchObject({ type: 'integer', minimum: 1, default: 5000 })
+    expect(schema.properties.retries).not.toHaveProperty('default')
+    expect(schema.additionalProperties).toBe(false)
+    expect(JsonSchemaBuilder.fromConfiguration({ batchSize: 100 }).properties.batchSize).toMatchObject({ default: 100 })
+  })
+})
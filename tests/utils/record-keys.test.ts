@@ -0,0 +1,38 @@
+import { ObjectId } from 'mongodb'
+import { RecordKeys } from '../../src/utils/record-keys'
+
+describe('RecordKeys', () => {
+  it('compares objects by content whatever the key order', () => {
+    expect(RecordKeys.of({ a: 1, b: { c: 2, d: 3 } })).toBe(RecordKeys.of({ b: { d: 3, c: 2 }, a: 1 }))
+    expect(RecordKeys.of({ a: 1 })).not.toBe(RecordKeys.of({ a: 2 }))
+  })
+
+  it('compares ObjectIds by hex string and dates by instant', () => {
+    const id = new ObjectId()
+
+    expect(RecordKeys.of(id)).toBe(RecordKeys.of(new ObjectId(id.toHexString())))
+    expect(RecordKeys.of(id)).not.toBe(RecordKeys.of(new ObjectId()))
+    expect(RecordKeys.of(new Date(0))).toBe(RecordKeys.of(new Date('1970-01-01T00:00:00Z')))
+  })
+
+  it('keeps values of different types apart', () => {
+    const date = new Date('2024-01-01T00:00:00.000Z')
+    const id = new ObjectId()
+
+    expect(new Set([RecordKeys.of('1'), RecordKeys.of(1), RecordKeys.of(1n)]).size).toBe(3)
+    expect(RecordKeys.of(date)).not.toBe(RecordKeys.of(date.toISOString()))
+    expect(RecordKeys.of(id)).not.toBe(RecordKeys.of(id.toHexString()))
+    expect(RecordKeys.of('b:1')).not.toBe(RecordKeys.of(1n))
+  })
+
+  it('keys invalid dates without throwing', () => {
+    expect(RecordKeys.of(new Date('not a date'))).toBe(RecordKeys.of(new Date(NaN)))
+    expect(RecordKeys.of(new Date('not a date'))).not.toBe(RecordKeys.of('invalid'))
+  })
+
+  it('has no key for records missing a part', () => {
+    expect(RecordKeys.fromPaths({ a: 1, b: null }, ['a', 'b'])).toBeUndefined()
+    expect(RecordKeys.fromPaths({ a: 1 }, ['a', 'c'])).toBeUndefined()
+    expect(RecordKeys.fromPaths({ a: { x: 1 } }, ['a'])).toBe(RecordKeys.of([{ x: 1 }]))
+  })
+})
@@ -0,0 +1,26 @@
+import { SemverUtils } from '../../src/utils/semver'
+
+describe('SemverUtils', () => {
+  it('picks the highest version in an npm range, leaving prereleases out unless named', () => {
+    const versions = ['1.0.0', '1.4.2', '2.0.0-beta.1', '2.0.0', '2.1.0-rc.1']
+
+    expect(SemverUtils.maxSatisfying(versions, '^1.0.0')).toBe('1.4.2')
+    expect(SemverUtils.maxSatisfying(versions, '>=2.0.0-beta.0 <3')).toBe('2.0.0')
+    expect(SemverUtils.maxSatisfying(versions, '2.1.0-rc.1 || 1.0.0 - 1.2.0')).toBe('2.1.0-rc.1')
+    expect(SemverUtils.maxSatisfying(versions, '^3.0.0')).toBeNull()
+  })
+
+  it('throws on invalid ranges in satisfies()', () => {
+    expect(SemverUtils.validRange('not a range')).toBe(false)
+    expect(() => SemverUtils.satisfies('1.0.0', 'not a range')).toThrow("Invalid version range 'not a range'")
+    expect(SemverUtils.satisfies('nope', '*')).toBe(false)
+  })
+
+  it('coerces loose versions and sorts by precedence', () => {
+    expect(SemverUtils.coerce('v2.1')).toBe('2.1.0')
+    expect(SemverUtils.coerce('1.0.0-beta.2')).toBe('1.0.0-beta.2')
+    expect(SemverUtils.coerce('latest')).toBeNull()
+    expect(SemverUtils.sort(['1.10.0', '1.2.0', '1.2.0-alpha'])).toEqual(['1.2.0-alpha', '1.2.0', '1.10.0'])
+    expect(SemverUtils.parse('1.2.3-rc.1')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: ['rc', 1] })
+  })
+})
@@ -0,0 +1,26 @@
+import { ValidationUtils } from '../../src/utils/validation'
+import { DataJoinNode } from '../../src/nodes/transformation/data-join.node'
+
+describe('ValidationUtils.fieldErrors', () => {
+  it('builds single-error results with the shared code', () => {
+    const error = ValidationUtils.fieldErrors('INVALID_JOIN')
+
+    expect(error('leftKey', 'Mode requires leftKey')).toEqual({
+      valid: false,
+      errors: [{ code: 'INVALID_JOIN', message: 'Mode requires leftKey', field: 'leftKey', severity: 'error' }],
+      warnings: []
+    })
+  })
+
+  it('keeps the given warnings', () => {
+    const warnings = [{ code: 'W', message: 'careful' }]
+    expect(ValidationUtils.fieldErrors('X', warnings)('f', 'm').warnings).toBe(warnings)
+  })
+
+  it('is what node validateInput() reports', () => {
+    const result = new DataJoinNode({}).validateInput({ left: [], right: [], mode: 'inner' })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors[0]).toMatchObject({ code: 'INVALID_JOIN', field: 'leftKey' })
+  })
+})
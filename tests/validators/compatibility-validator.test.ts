@@ -0,0 +1,112 @@
+import { NodeRegistry } from '../../src/base/node-registry'
+import { CompatibilityRule } from '../../src/interfaces/compatibility.interface'
+import { INode, NodeResult } from '../../src/interfaces/node.interface'
+import { CompatibilityValidator } from '../../src/validators/compatibility-validator'
+
+function nodeClass(type: string, compatibilityMatrix: CompatibilityRule[] = []): new () => INode {
+  return class implements INode {
+    readonly type = type
+    readonly version = '1.0.0'
+    readonly category = 'transformation'
+
+    static getMetadata(): any {
+      return { type, version: '1.0.0', category: 'transformation', inputs: [], outputs: [], compatibilityMatrix }
+    }
+
+    async execute(): Promise<NodeResult> {
+      return { success: true }
+    }
+
+    validate = () => true
+    getConfig = () => ({})
+  }
+}
+
+describe('CompatibilityValidator rules', () => {
+  const registry = new NodeRegistry()
+  registry.register(nodeClass('test-target'), 'test-target')
+  registry.register(nodeClass('test-source', [
+    { targetType: 'test-target', outputPin: 'rows', targetInputPin: 'data', compatibility: 'partial' },
+    { targetType: 'test-target', outputPin: 'rows', targetInputPin: 'records', compatibility: 'full' }
+  ]), 'test-source')
+  const validator = new CompatibilityValidator(registry)
+
+  it('reads the rules each registered node declares in its metadata', () => {
+    expect(validator.getRules('test-source', 'test-target')).toHaveLength(2)
+    expect(validator.getRules('test-target')).toEqual([])
+  })
+
+  it('picks the best rule between two types, or the rule for the given pins', () => {
+    expect(validator.checkConnection({ type: 'test-source' }, { type: 'test-target' })).toMatchObject({
+      level: 'full',
+      valid: true,
+      rule: { targetInputPin: 'records' }
+    })
+    expect(validator.checkConnection(
+      { type: 'test-source', pin: 'rows' },
+      { type: 'test-target', pin: 'data' }
+    ).level).toBe('partial')
+  })
+
+  it('rejects connections no rule covers and unregistered sources', () => {
+    expect(validator.checkConnection({ type: 'test-target' }, { type: 'test-source' })).toMatchObject({
+      level: 'none',
+      valid: false,
+      message: 'No compatibility rule found between test-target and test-source'
+    })
+    expect(validator.checkConnection({ type: 'missing' }, { type: 'test-target' }).message)
+      .toBe("Node type 'missing' is not registered")
+  })
+
+  it('derives the built-in matrix from the built-in nodes', () => {
+    expect(CompatibilityValidator.check('postgresql-query', 'data-filter').valid).toBe(true)
+    expect(CompatibilityValidator.check('postgresql-query', 'no-such-node')).toEqual({ level: 'none', valid: false })
+  })
+})
+
+describe('CompatibilityValidator conditions', () => {
+  const registry = new NodeRegistry()
+  registry.register(nodeClass('test-target'), 'test-target')
+  registry.register(nodeClass('test-source', [
+    {
+      targetType: 'test-target',
+      outputPin: 'rows',
+      targetInputPin: 'data',
+      compatibility: 'conditional',
+      conditions: [
+        { field: 'mode', operator: 'equals', value: 'rows' },
+        { field: 'target.limit', operator: 'less_than', value: 100 }
+      ]
+    }
+  ]), 'test-source')
+  const validator = new CompatibilityValidator(registry)
+
+  it('keeps rules whose conditions hold for the endpoint configs', () => {
+    const result = validator.checkConnection(
+      { type: 'test-source', config: { mode: 'rows' } },
+      { type: 'test-target', config: { limit: 10 } }
+    )
+
+    expect(result).toMatchObject({ level: 'conditional', valid: true })
+    expect(result.warnings).toBeUndefined()
+  })
+
+  it('rejects connections whose conditions fail', () => {
+    const result = validator.checkConnection(
+      { type: 'test-source', config: { mode: 'rows' } },
+      { type: 'test-target', config: { limit: 500 } }
+    )
+
+    expect(result.valid).toBe(false)
+    expect(result.message).toBe('Conditions not met between test-source and test-target: target.limit less_than 100')
+  })
+
+  it('warns instead of failing when an endpoint has no config to evaluate', () => {
+    const result = validator.checkConnection({ type: 'test-source' }, { type: 'test-target' })
+
+    expect(result.valid).toBe(true)
+    expect(result.warnings).toEqual([
+      'Conditions for test-source.rows → test-target.data could not be evaluated without node configuration'
+    ])
+  })
+})
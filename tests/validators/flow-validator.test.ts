@@ -0,0 +1,109 @@
+import { NodeRegistry } from '../../src/base/node-registry'
+import { FlowDefinition } from '../../src/interfaces/flow.interface'
+import { INode, NodeResult } from '../../src/interfaces/node.interface'
+import { createDefaultRegistry } from '../../src/nodes/default-registry'
+import { FlowValidator } from '../../src/validators/flow-validator'
+
+class VersionedNode implements INode {
+  readonly type = 'test-versioned'
+  readonly version = '1.0.0'
+  readonly category = 'transformation'
+
+  static getMetadata(): any {
+    return { type: 'test-versioned', version: '1.0.0', category: 'transformation', inputs: [], outputs: [] }
+  }
+
+  async execute(): Promise<NodeResult> {
+    return { success: true }
+  }
+
+  validate = () => true
+  getConfig = () => ({})
+}
+
+class BrokenMetadataNode extends VersionedNode {
+  static getMetadata(): any {
+    throw new Error('metadata unavailable')
+  }
+}
+
+function flow(nodes: FlowDefinition['nodes'], connections: FlowDefinition['connections'] = []): FlowDefinition {
+  return { name: 'test', version: 1, nodes, connections }
+}
+
+describe('FlowValidator versions', () => {
+  const registry = new NodeRegistry()
+  const validator = new FlowValidator(registry)
+
+  beforeAll(() => {
+    registry.register(VersionedNode, 'test-versioned', { version: '1.2.0' })
+    registry.register(VersionedNode, 'test-versioned', { version: '2.0.0' })
+    registry.register(BrokenMetadataNode, 'test-broken', { version: '1.0.0' })
+  })
+
+  function versionErrors(node: FlowDefinition['nodes'][number]): string[] {
+    return validator.validate(flow([node])).errors
+      .filter(error => error.code === 'UNKNOWN_NODE_VERSION')
+      .map(error => error.message)
+  }
+
+  it('accepts versions resolved from a semver range', () => {
+    expect(versionErrors({ id: 'a', type: 'test-versioned', version: '^1.0.0', config: {} })).toEqual([])
+    expect(versionErrors({ id: 'a', type: 'test-versioned', config: {} })).toEqual([])
+  })
+
+  it('reports ranges no registered version satisfies', () => {
+    expect(versionErrors({ id: 'a', type: 'test-versioned', version: '^3.0.0', config: {} })).toEqual([
+      "No version of node type 'test-versioned' matches '^3.0.0' (available: 1.2.0, 2.0.0)"
+    ])
+  })
+
+  it('reports invalid ranges', () => {
+    expect(versionErrors({ id: 'a', type: 'test-versioned', version: 'latest-ish', config: {} })).toEqual([
+      "Invalid version range 'latest-ish' for node 'a'"
+    ])
+  })
+
+  it('reports nodes without a version when no default version is available', () => {
+    expect(versionErrors({ id: 'a', type: 'test-broken', config: {} })).toEqual([
+      "No default version of node type 'test-broken' is available for node 'a' (registered: 1.0.0)"
+    ])
+  })
+})
+
+describe('FlowValidator structure', () => {
+  const validator = new FlowValidator(createDefaultRegistry())
+
+  function codes(definition: FlowDefinition): string[] {
+    return validator.validate(definition).errors.map(error => error.code)
+  }
+
+  it('reports cycles, dangling connections, duplicate ids and unknown types', () => {
+    expect(codes(flow(
+      [
+        { id: 'a', type: 'data-filter', config: { conditions: [] } },
+        { id: 'b', type: 'data-filter', config: { conditions: [] } }
+      ],
+      [{ sourceId: 'a', targetId: 'b' }, { sourceId: 'b', targetId: 'a' }]
+    ))).toContain('FLOW_CYCLE')
+
+    expect(codes(flow(
+      [{ id: 'a', type: 'data-filter', config: { conditions: [] } }],
+      [{ sourceId: 'a', targetId: 'missing' }]
+    ))).toContain('DANGLING_CONNECTION')
+
+    expect(codes(flow([
+      { id: 'a', type: 'data-filter', config: { conditions: [] } },
+      { id: 'a', type: 'data-filter', config: { conditions: [] } }
+    ]))).toContain('DUPLICATE_NODE_ID')
+
+    expect(codes(flow([{ id: 'a', type: 'no-such-node', config: {} }]))).toEqual(['UNKNOWN_NODE_TYPE'])
+  })
+
+  it('requires inputs that are neither configured, defaulted nor connected', () => {
+    const result = validator.validate(flow([{ id: 'query', type: 'postgresql-query', config: {} }]))
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toMatchObject([{ code: 'MISSING_REQUIRED_INPUT', nodeId: 'query', field: 'connectionString' }])
+  })
+})
@@ -0,0 +1,59 @@
+import { SchemaCompatibilityChecker } from '../../src/validators/schema-compatibility'
+
+describe('SchemaCompatibilityChecker', () => {
+  it('accepts matching types and rejects mismatches', () => {
+    expect(SchemaCompatibilityChecker.checkSchemas({ type: 'integer' }, { type: 'number' })).toEqual({ compatible: true, issues: [] })
+
+    const result = SchemaCompatibilityChecker.checkSchemas({ type: 'boolean' }, { type: 'array' })
+    expect(result.compatible).toBe(false)
+    expect(result.issues).toMatchObject([{ path: '$', severity: 'error', expected: 'array', actual: 'boolean' }])
+  })
+
+  it('warns about coercible types instead of failing', () => {
+    const result = SchemaCompatibilityChecker.checkSchemas({ type: 'array' }, { type: 'object' })
+
+    expect(result.compatible).toBe(true)
+    expect(result.issues).toMatchObject([{ severity: 'warning' }])
+  })
+
+  it('compares array items and the properties the input requires', () => {
+    const output = {
+      type: 'array',
+      items: { type: 'object', properties: { id: { type: 'number' }, total: { type: 'number' } } }
+    }
+    const input = {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'email'],
+        properties: { id: { type: 'string' }, email: { type: 'string' }, note: { type: 'string' } }
+      }
+    }
+
+    expect(SchemaCompatibilityChecker.checkSchemas(output, input).issues).toMatchObject([
+      { path: '$[].id', severity: 'warning' },
+      { path: '$[].email', severity: 'error', message: "Required property 'email' is not produced by the source" }
+    ])
+  })
+
+  it('only notes required properties the source does not describe', () => {
+    const result = SchemaCompatibilityChecker.checkSchemas(
+      { type: 'object' },
+      { type: 'object', required: ['id'], properties: { id: { type: 'string' } } }
+    )
+
+    expect(result.compatible).toBe(true)
+    expect(result.issues).toMatchObject([{ path: '$.id', severity: 'info' }])
+  })
+
+  it('checks input validation rules against the output schema', () => {
+    const result = SchemaCompatibilityChecker.checkPins(
+      { name: 'status', type: 'string', description: '', schema: { type: 'string', enum: ['new', 'paid', 'void'] } },
+      { name: 'status', type: 'string', required: true, description: '', validation: { enum: ['new', 'paid'], maxLength: 10 } }
+    )
+
+    expect(result.compatible).toBe(false)
+    expect(result.issues.map(issue => issue.severity)).toEqual(['error', 'warning'])
+    expect(result.issues[0].message).toBe('Source may produce values outside the allowed enum: void')
+  })
+})